@@ -0,0 +1,10 @@
+import type * as Bookmarks from "../model/bookmarks";
+
+/** An archived bookmark or folder, filtered according to the search. */
+export type FilteredArchivedItem =
+  | {node: Bookmarks.Bookmark}
+  | {
+      node: Bookmarks.Folder;
+      children: FilteredArchivedItem[];
+      filtered_count?: number;
+    };
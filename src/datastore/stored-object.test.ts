@@ -12,6 +12,7 @@ import type {
 } from "./stored-object";
 import {
   aBoolean,
+  anArrayOf,
   anEnum,
   aNumber,
   aString,
@@ -118,6 +119,7 @@ describe("stored-object", function () {
       enum: {default: "maybe", is: anEnum("yes", "no", "maybe")},
       tristate: {default: null, is: maybeNull(aBoolean)},
       undef: {default: undefined, is: maybeUndef(aNumber)},
+      list: {default: [], is: anArrayOf(aString)},
     };
 
     const defaults = <D extends StorableDef>(def: D) =>
@@ -302,6 +304,39 @@ describe("stored-object", function () {
       });
     });
 
+    it("converts array elements which are the wrong type", async () => {
+      await browser.storage.local.set({foo: {list: ["a", 1, {}, "b"]}});
+      await events.next(browser.storage.onChanged);
+
+      const o = await factory.get("local", "foo", DEF);
+      expect(o.state.list).to.deep.equal(["a", "1", "b"]);
+    });
+
+    it("does not save arrays which are the same as the default", async () => {
+      const o = await factory.get("local", "foo", DEF);
+
+      await o.set({list: ["a"]});
+      await events.next(browser.storage.onChanged);
+      await events.next(o.onChanged);
+      expect(await browser.storage.local.get("foo")).to.deep.equal({
+        foo: {list: ["a"]},
+      });
+
+      await o.set({a: 42, list: []});
+      await events.next(browser.storage.onChanged);
+      await events.next(o.onChanged);
+      expect(await browser.storage.local.get("foo")).to.deep.equal({
+        foo: {a: 42},
+      });
+
+      await o.set({a: 17});
+      await events.next(browser.storage.onChanged);
+      await events.next(o.onChanged);
+      expect(await browser.storage.local.get("foo")).to.deep.equal({
+        foo: {a: 17},
+      });
+    });
+
     it("resets non-default values to the default", async function () {
       const OVERRIDES = {a: 42, bar: "fred"};
       await browser.storage.local.set({foo: OVERRIDES});
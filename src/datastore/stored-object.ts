@@ -161,6 +161,24 @@ export const anEnum =
     return fallback;
   };
 
+// Arrays of a particular type are supported too; for example,
+// anArrayOf(aString) is equivalent to string[].  Elements which can't be
+// converted to the desired type (or are undefined/null) are dropped.
+export const anArrayOf = <V extends StorableValue>(
+  converter: StorableType<V>,
+) => {
+  const element = maybeUndef(converter);
+  return (value: any, fallback: V[]): V[] => {
+    if (!(value instanceof Array)) return fallback;
+    const res: V[] = [];
+    for (const v of value) {
+      const c = element(v, undefined);
+      if (c !== undefined) res.push(c);
+    }
+    return res;
+  };
+};
+
 /** An object which is stored persistently in `browser.storage`, and which
  * conforms to a particular schema definition `D`. */
 export interface StoredObject<D extends StorableDef> {
@@ -343,7 +361,7 @@ class StoredObjectImpl<D extends StorableDef> implements StoredObject<D> {
       // Carry forward existing values that are non-default and not
       // explicitly specified in /values/.
       if (!(k in values)) {
-        if (this.state[k] !== this._def[k].default) {
+        if (!sameValue(this.state[k], this._def[k].default)) {
           data[k] = this.state[k];
         }
         continue;
@@ -353,7 +371,7 @@ class StoredObjectImpl<D extends StorableDef> implements StoredObject<D> {
 
       // If /values/ explicitly specifies that /k/ should be the default
       // value, omit it from the saved object entirely.
-      if (v === this._def[k].default) continue;
+      if (sameValue(v, this._def[k].default)) continue;
 
       // Otherwise, store it.
       (<any>data)[k] = v;
@@ -396,3 +414,12 @@ class StoredObjectImpl<D extends StorableDef> implements StoredObject<D> {
     }
   }
 }
+
+/** Compare two storable values.  Arrays are compared element by element,
+ * since the copy in `state` is never the same object as the default. */
+function sameValue(a: StorableValue, b: StorableValue): boolean {
+  if (a instanceof Array && b instanceof Array) {
+    return a.length === b.length && a.every((v, i) => sameValue(v, b[i]));
+  }
+  return a === b;
+}
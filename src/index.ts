@@ -3,12 +3,26 @@
 import type {Menus} from "webextension-polyfill";
 import browser from "webextension-polyfill";
 
+import {
+  friendlyFolderName,
+  isBookmark,
+  type Bookmark,
+  type Folder,
+} from "./model/bookmarks";
+import {handleExternalMessage} from "./model/external-api";
 import type {ShowWhatOpt, StashWhatOpt} from "./model/options";
 import type {Tab, TabID, WindowID} from "./model/tabs";
 import service_model from "./service-model";
-import {asyncEvent, backingOff, nonReentrant, urlToOpen} from "./util";
+import {extractURLs, stashLinks} from "./tasks/import";
+import {asyncEvent, backingOff, nonReentrant, normalizeURL} from "./util";
 import {logErrorsFrom} from "./util/oops";
 
+// onStartup is only delivered to listeners which are registered right away, so
+// we can't wait until the model is ready to start listening for it.
+const browser_started = new Promise<void>(resolve =>
+  browser.runtime.onStartup.addListener(() => resolve()),
+);
+
 logErrorsFrom(async () => {
   // BEGIN FILE-WIDE ASYNC BLOCK
 
@@ -108,7 +122,12 @@ logErrorsFrom(async () => {
     ],
   );
 
-  const commands: {[key: string]: (t?: Tab) => Promise<void>} = {
+  menu("4:", ["link"], [["stash_link", "Stash Link"]]);
+  menu("5:", ["selection"], [["stash_selection", "Stash Links in Selection"]]);
+
+  const commands: {
+    [key: string]: (t?: Tab, info?: Menus.OnClickData) => Promise<void>;
+  } = {
     // NOTE: Several of these commands open the sidebar.  We have to open the
     // sidebar before the first "await" call, otherwise we won't actually have
     // permission to do so per Firefox's API rules.
@@ -162,10 +181,7 @@ logErrorsFrom(async () => {
     async stash_one_newgroup(tab?: Tab) {
       show_something(model.options.sync.state.open_stash_in);
       if (!tab) return;
-      await model.putItemsInFolder({
-        items: [tab],
-        toFolderId: (await model.bookmarks.createStashFolder()).id,
-      });
+      await model.putItemsInNewFolder({items: [tab]});
     },
 
     async copy_all(tab?: Tab) {
@@ -178,6 +194,20 @@ logErrorsFrom(async () => {
       await stash_something({what: "single", copy: true, tab});
     },
 
+    async stash_link(tab?: Tab, info?: Menus.OnClickData) {
+      if (!info?.linkUrl) return;
+      show_something(model.options.sync.state.open_stash_in);
+      await stashLinks(model, [
+        {url: info.linkUrl, title: info.linkText?.trim() || undefined},
+      ]);
+    },
+
+    async stash_selection(tab?: Tab, info?: Menus.OnClickData) {
+      if (!info?.selectionText) return;
+      show_something(model.options.sync.state.open_stash_in);
+      await stashLinks(model, Array.from(extractURLs(info.selectionText)));
+    },
+
     async options() {
       await browser.runtime.openOptionsPage();
     },
@@ -220,10 +250,7 @@ logErrorsFrom(async () => {
         break;
 
       case "single":
-        await model.putItemsInFolder({
-          items: model.copyIf(!!options.copy, [options.tab]),
-          toFolderId: (await model.ensureRecentUnnamedFolder()).id,
-        });
+        await model.stashTab(options.tab, {copy: !!options.copy});
         break;
 
       case "none":
@@ -241,9 +268,26 @@ logErrorsFrom(async () => {
     const cmd = (<string>info.menuItemId).replace(/^[^:]*:/, "");
     console.assert(!!commands[cmd]);
     const t = tab?.id ? model.tabs.tab(tab?.id) : undefined;
+    commands[cmd](t, info).catch(console.log);
+  });
+
+  // Keyboard shortcuts are named after the commands they run.  Built-in
+  // shortcuts (e.g. _execute_browser_action) are handled by the browser itself
+  // and never reach us.
+  browser.commands.onCommand.addListener((cmd, tab) => {
+    if (!commands[cmd]) return;
+    const t = tab?.id
+      ? model.tabs.tab(tab.id)
+      : model.tabs.activeTab(model.tabs.focusedWindow.value);
     commands[cmd](t).catch(console.log);
   });
 
+  // Other extensions may stash and query tabs thru our external API, if the
+  // user has allowed them to do so.  See model/external-api.ts.
+  browser.runtime.onMessageExternal.addListener((message, sender) =>
+    handleExternalMessage(model, message, sender.id),
+  );
+
   if (browser.browserAction) {
     // In order for show_something('popup') to work, we must preconfigure the
     // browser to know which popup to show.  This cannot be done at the time of
@@ -295,6 +339,60 @@ logErrorsFrom(async () => {
     );
   }
 
+  if (browser.omnibox) {
+    // The maximum number of suggestions to show in the address bar.  The
+    // browser will only show a handful anyway.
+    const MAX_SUGGESTIONS = 10;
+
+    // Suggestions we most recently offered the user, keyed by their content
+    // (which is what we get back if the user picks one).
+    let suggested = new Map<string, Bookmark | Folder>();
+
+    const suggestionsFor = (text: string) => {
+      suggested = new Map();
+      for (const node of model.bookmarks.nodesInStashMatching(text.trim())) {
+        if (suggested.size >= MAX_SUGGESTIONS) break;
+        const content = isBookmark(node)
+          ? node.url
+          : `Group: ${friendlyFolderName(node.title)}`;
+        if (!suggested.has(content)) suggested.set(content, node);
+      }
+
+      return Array.from(suggested, ([content, node]) => ({
+        content,
+        description: isBookmark(node)
+          ? `${node.title} - ${node.url}`
+          : `Group: ${friendlyFolderName(node.title)} ` +
+            `(${node.$stats.bookmarkCount} tabs)`,
+      }));
+    };
+
+    browser.omnibox.setDefaultSuggestion({
+      description: "Search your stash for tabs and groups to restore",
+    });
+
+    browser.omnibox.onInputChanged.addListener((text, suggest) => {
+      suggest(suggestionsFor(text));
+    });
+
+    browser.omnibox.onInputEntered.addListener((text, disposition) =>
+      model.attempt(async () => {
+        // If the user didn't pick a suggestion, just go with the best match.
+        const node =
+          suggested.get(text) ??
+          model.bookmarks.nodesInStashMatching(text.trim()).next().value;
+        if (!node) return;
+
+        const items = isBookmark(node)
+          ? [node]
+          : model.bookmarks.childrenOf(node).filter(isBookmark);
+        await model.restoreTabs(items, {
+          background: disposition === "newBackgroundTab",
+        });
+      }),
+    );
+  }
+
   //
   // Check for a fresh install and note which version we are, so we can notify the
   // user when updates are installed.
@@ -337,6 +435,48 @@ logErrorsFrom(async () => {
     }),
   );
 
+  //
+  // If the user wants, stash the contents of windows when they are closed, so
+  // they can be found again later.  The tabs model has already seen the window
+  // go away by the time we get here (it registered its listeners first), but it
+  // remembers what was in the window for us.
+  //
+
+  // Window IDs start over when the browser restarts, so anything we remember
+  // about windows from its last run would end up attached to the wrong ones.
+  browser_started.then(() =>
+    model.attempt(() => model.bookmark_metadata.forgetAllWindows()),
+  );
+
+  browser.windows.onRemoved.addListener(winId => {
+    // Window IDs may be reused later, so a new window shouldn't inherit the
+    // workspace of a window which happened to have the same ID.
+    model.attempt(() => model.bookmark_metadata.forgetWorkspace(winId));
+
+    if (!model.options.sync.state.stash_closed_windows) return;
+    const win = model.tabs.closedWindow(winId);
+    if (!win) return;
+    model.attempt(() => model.stashClosedWindow(win));
+  });
+
+  //
+  // Keep track of when stashed bookmarks were last looked at, so we can tell
+  // the user which parts of their stash they aren't using anymore.
+  //
+
+  browser.tabs.onActivated.addListener(info => {
+    const tab = model.tabs.tab(info.tabId as TabID);
+    if (!tab || !tab.url) return;
+    model.markURLOpened(tab.url);
+  });
+
+  // Navigating within the tab the user is already looking at doesn't activate
+  // it again, so we also need to watch for URL changes.
+  browser.tabs.onUpdated.addListener((_id, info, tab) => {
+    if (!info.url || !tab.active) return;
+    model.markURLOpened(info.url);
+  });
+
   //
   // Setup GC events to close hidden tabs which are removed from the stash.  This
   // GC is triggered by any bookmark event which could possibly change the set of
@@ -357,13 +497,14 @@ logErrorsFrom(async () => {
   //
 
   logErrorsFrom(async () => {
-    let managed_urls = model.bookmarks.urlsInStash();
+    // Tabs may belong to any profile's stash, not just the current one.
+    let managed_urls = model.bookmarks.urlsInStash(model.profiles());
 
     const close_removed_bookmarks = backingOff(() =>
       model.attempt(async () => {
         // Garbage-collect hidden tabs by diffing the old and new sets of URLs
         // in the tree.
-        const new_urls = model.bookmarks.urlsInStash();
+        const new_urls = model.bookmarks.urlsInStash(model.profiles());
         let windows = await browser.windows.getAll({
           windowTypes: ["normal"],
           populate: true,
@@ -371,9 +512,17 @@ logErrorsFrom(async () => {
 
         // Ugh, why am I open-coding a set-difference operation?  This
         // should be built-in!
+        //
+        // URLs are compared after normalization, so a tab isn't closed if
+        // it's still stashed under a different (but equivalent) URL.
+        const rules = model.options.urlNormalization.value;
+        const stashed_urls = new Set(
+          Array.from(new_urls, url => normalizeURL(url, rules)),
+        );
         let removed_urls = new Set();
         for (let url of managed_urls) {
-          if (!new_urls.has(url)) removed_urls.add(url);
+          const key = normalizeURL(url, rules);
+          if (!stashed_urls.has(key)) removed_urls.add(key);
         }
 
         let tids = [];
@@ -382,12 +531,18 @@ logErrorsFrom(async () => {
           for (let t of w.tabs!) {
             if (!t.hidden) continue;
             if (t.id === undefined) continue;
-            if (!removed_urls.has(urlToOpen(t.url!))) continue;
+            if (!removed_urls.has(normalizeURL(t.url!, rules))) continue;
             tids.push(t.id as TabID);
           }
         }
 
         await model.tabs.remove(tids);
+        if (tids.length > 0) {
+          await model.activity_log.log(
+            "gc",
+            `closed ${tids.length} hidden tab(s) which are no longer stashed`,
+          );
+        }
 
         managed_urls = new_urls;
       }),
@@ -491,6 +646,38 @@ logErrorsFrom(async () => {
     model.options.local.state.autodiscard_interval_min * 60 * 1000,
   );
 
+  //
+  // Re-open snoozed items when it's time for them to wake up.  We keep a single
+  // alarm set for the earliest wake-up time, and recompute it whenever the
+  // alarm fires or bookmark metadata changes (e.g. because the user snoozed
+  // something in the UI).  Since the wake-up times themselves are stored in
+  // the bookmark metadata, we also recompute it on startup, so snoozed items
+  // still wake up if the browser was closed at the time.
+  //
+
+  const SNOOZE_ALARM = "wake_snoozed_items";
+
+  const wake_snoozed_items = nonReentrant(() =>
+    model.attempt(async () => {
+      const next = await model.wakeSnoozedItems();
+      if (next === undefined) {
+        await browser.alarms.clear(SNOOZE_ALARM);
+      } else {
+        browser.alarms.create(SNOOZE_ALARM, {when: next});
+      }
+    }),
+  );
+
+  browser.alarms.onAlarm.addListener(alarm => {
+    if (alarm.name === SNOOZE_ALARM) wake_snoozed_items();
+  });
+  model.bookmark_metadata.onSet.addListener(entries => {
+    if (entries.some(e => e.value?.snoozed_until !== undefined)) {
+      wake_snoozed_items();
+    }
+  });
+  wake_snoozed_items();
+
   //
   // Setup a periodic background job to cleanup various deleted items and caches.
   // Needed to prevent Tab Stash from consuming an unbounded amount of the user's
@@ -0,0 +1,55 @@
+import type {Commands} from "webextension-polyfill";
+
+import * as events from "../events";
+
+/** The commands the mock browser knows about, as if they were declared in the
+ * extension's manifest. */
+const MANIFEST_COMMANDS: Commands.Command[] = [
+  {name: "stash_all", description: "Stash tabs", shortcut: ""},
+  {name: "stash_one", description: "Stash this tab", shortcut: "Ctrl+Alt+K"},
+  {name: "show_tab", description: "Show stashed tabs in a tab", shortcut: ""},
+];
+
+class MockCommands implements Commands.Static {
+  readonly onCommand: events.MockEvent<
+    (command: string, tab: any | undefined) => void
+  > = new events.MockEvent("browser.commands.onCommand");
+
+  private readonly _commands = new Map<string, Commands.Command>();
+
+  constructor() {
+    for (const c of MANIFEST_COMMANDS) this._commands.set(c.name!, {...c});
+  }
+
+  async getAll(): Promise<Commands.Command[]> {
+    return Array.from(this._commands.values()).map(c => ({...c}));
+  }
+
+  async update(detail: Commands.UpdateDetailType): Promise<void> {
+    const cmd = this._commands.get(detail.name);
+    if (!cmd) throw new Error(`No such command: ${detail.name}`);
+    if (detail.description !== undefined) cmd.description = detail.description;
+    if (detail.shortcut !== undefined) cmd.shortcut = detail.shortcut;
+  }
+
+  async reset(name: string): Promise<void> {
+    const def = MANIFEST_COMMANDS.find(c => c.name === name);
+    if (!def) throw new Error(`No such command: ${name}`);
+    this._commands.set(name, {...def});
+  }
+}
+
+export default (() => {
+  const exports = {
+    commands: new MockCommands(),
+
+    reset() {
+      exports.commands = new MockCommands();
+      (<any>globalThis).browser.commands = exports.commands;
+    },
+  };
+
+  exports.reset();
+
+  return exports;
+})();
@@ -13,6 +13,9 @@ class MockContainers implements CI.Static {
     (changeInfo: CI.OnUpdatedChangeInfoType) => void
   > = new events.MockEvent("browser.contextualIdentities.onUpdated");
 
+  private _containers: CI.ContextualIdentity[] = [];
+  private _next_id = 1;
+
   constructor() {
     return;
   }
@@ -22,14 +25,28 @@ class MockContainers implements CI.Static {
     throw new Error("Method not implemented.");
   }
 
-  // istanbul ignore next
   async query(details: CI.QueryDetailsType): Promise<CI.ContextualIdentity[]> {
-    throw new Error("Method not implemented.");
+    // istanbul ignore if
+    if (details.name !== undefined) {
+      throw new Error(`Querying by name is not implemented`);
+    }
+    return JSON.parse(JSON.stringify(this._containers));
   }
 
-  // istanbul ignore next
   async create(details: CI.CreateDetailsType): Promise<CI.ContextualIdentity> {
-    throw new Error("Method not implemented.");
+    const container: CI.ContextualIdentity = {
+      cookieStoreId: `firefox-container-${this._next_id++}`,
+      name: details.name,
+      color: details.color,
+      colorCode: "#000000",
+      icon: details.icon,
+      iconUrl: `resource://usercontext-content/${details.icon}.svg`,
+    };
+    this._containers.push(container);
+    this.onCreated.send({
+      contextualIdentity: JSON.parse(JSON.stringify(container)),
+    });
+    return JSON.parse(JSON.stringify(container));
   }
 
   // istanbul ignore next
@@ -40,9 +57,16 @@ class MockContainers implements CI.Static {
     throw new Error("Method not implemented.");
   }
 
-  // istanbul ignore next
   async remove(cookieStoreId: string): Promise<CI.ContextualIdentity> {
-    throw new Error("Method not implemented.");
+    const idx = this._containers.findIndex(
+      c => c.cookieStoreId === cookieStoreId,
+    );
+    // istanbul ignore if
+    if (idx === -1) throw new Error(`No such container: ${cookieStoreId}`);
+
+    const [container] = this._containers.splice(idx, 1);
+    this.onRemoved.send({contextualIdentity: container});
+    return container;
   }
 }
 
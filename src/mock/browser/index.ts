@@ -1,7 +1,8 @@
 import bookmarks from "./bookmarks";
+import commands from "./commands";
 import containers from "./containers";
 import runtime from "./runtime";
 import storage from "./storage";
 import tabs_and_windows from "./tabs-and-windows";
 
-export {storage, runtime, bookmarks, tabs_and_windows, containers};
+export {storage, runtime, bookmarks, tabs_and_windows, containers, commands};
@@ -456,6 +456,7 @@ class MockTabs implements T.Static {
       pinned: options.pinned ?? false,
       incognito: false,
       status: "loading",
+      cookieStoreId: options.cookieStoreId,
     };
     this._finish_loading(tab);
 
@@ -38,6 +38,7 @@ export const mochaHooks: RootHookObject = {
     mock_browser.bookmarks.reset();
     mock_browser.tabs_and_windows.reset();
     mock_browser.containers.reset();
+    mock_browser.commands.reset();
   },
   async afterEach() {
     await events.afterTest();
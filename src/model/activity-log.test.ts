@@ -0,0 +1,101 @@
+import {expect} from "chai";
+
+import "../mock/browser";
+import * as events from "../mock/events";
+
+import MemoryKVS from "../datastore/kvs/memory";
+import * as M from "./activity-log";
+
+describe("model/activity-log", () => {
+  let source: M.Source;
+  let model: M.Model;
+
+  beforeEach(async () => {
+    source = new MemoryKVS("activity_log");
+    model = new M.Model(source);
+  });
+
+  async function logMany(count: number) {
+    const start = Date.now() - count * 60 * 1000;
+    for (let i = 0; i < count; ++i) {
+      await model.log(
+        i % 2 === 0 ? "stash" : "restore",
+        `activity ${i}`,
+        new Date(start + i * 60 * 1000),
+      );
+    }
+    await events.nextN(source.onSet, count);
+  }
+
+  it("lazily loads activities newest-first", async () => {
+    await logMany(50);
+    model = new M.Model(source);
+    expect(model.state.entries).to.be.empty;
+
+    while (!model.state.fullyLoaded) await model.loadMore();
+    expect(model.state.entries.length).to.equal(50);
+    expect(model.state.entries[0].description).to.equal("activity 49");
+    expect(model.state.entries[49].description).to.equal("activity 0");
+  });
+
+  it("observes newly-logged activities", async () => {
+    await logMany(5);
+    while (!model.state.fullyLoaded) await model.loadMore();
+
+    const m2 = new M.Model(source);
+    await m2.log("rename", `renamed "A" to "B"`);
+    await events.next(source.onSet);
+
+    expect(model.state.entries.length).to.equal(6);
+    expect(model.state.entries[0]).to.deep.include({
+      type: "rename",
+      description: `renamed "A" to "B"`,
+    });
+  });
+
+  it("marks the model as not fully-loaded when new activities appear", async () => {
+    await model.loadMore();
+    expect(model.state.fullyLoaded).to.be.true;
+
+    await model.log("gc", "closed 4 hidden tab(s)");
+    await events.next(source.onSet);
+    expect(model.state.entries.length).to.equal(0);
+    expect(model.state.fullyLoaded).to.be.false;
+  });
+
+  it("loads only activities which match the applied filter", async () => {
+    await logMany(20);
+
+    model.filter(a => a.type === "restore");
+    while (!model.state.fullyLoaded) await model.loadMore();
+    expect(model.state.entries.length).to.equal(10);
+    for (const a of model.state.entries) expect(a.type).to.equal("restore");
+
+    await model.log("stash", "stashed something");
+    await events.next(source.onSet);
+    expect(model.state.entries.length).to.equal(10);
+  });
+
+  it("reloads the model when KVS sync is lost", async () => {
+    await logMany(3);
+    while (!model.state.fullyLoaded) await model.loadMore();
+
+    events.send(source.onSyncLost);
+    await events.next(source.onSyncLost);
+
+    expect(model.state.entries.length).to.equal(0);
+    expect(model.state.fullyLoaded).to.be.false;
+  });
+
+  it("keeps only the newest activities during GC", async () => {
+    await logMany(30);
+    while (!model.state.fullyLoaded) await model.loadMore();
+
+    await model.gc(10);
+    await events.nextN(source.onSet, 1);
+
+    expect(model.state.entries.map(a => a.description)).to.deep.equal(
+      Array.from({length: 10}, (_, i) => `activity ${29 - i}`),
+    );
+  });
+});
@@ -0,0 +1,210 @@
+// Model for keeping a persistent log of things Tab Stash did to the stash (e.g.
+// stashing tabs, restoring groups, renaming things, closing hidden tabs, etc.).
+// See index.ts for how this fits in to the overall Tab Stash model.
+//
+// The log only records what Tab Stash itself did on this computer, so if the
+// stash changes and there is no corresponding entry in the log, the change
+// came from somewhere else (e.g. another computer, via bookmark sync).
+
+import {reactive} from "vue";
+
+import {nonReentrant} from "../util";
+import {makeTimestampKey} from "../util/random";
+
+import type {Entry, KeyValueStore, MaybeEntry} from "../datastore/kvs";
+import {entryHasValue} from "../datastore/kvs/proto";
+
+// Keys are opaque but monotonically increasing as time passes (see
+// makeTimestampKey()), so newer activities have greater keys.
+export type Source = KeyValueStore<string, SourceValue>;
+export type SourceValue = {
+  logged_at: string;
+  type: ActivityType;
+  description: string;
+};
+
+export type ActivityType =
+  | "stash"
+  | "restore"
+  | "move"
+  | "rename"
+  | "create"
+  | "delete"
+  | "archive"
+  | "snooze"
+  | "undo"
+  | "gc";
+
+/** Human-readable names for each type of activity, in the order they should
+ * be shown to the user. */
+export const ACTIVITY_TYPES: {[T in ActivityType]: string} = {
+  stash: "Stashed",
+  restore: "Restored",
+  move: "Moved",
+  rename: "Renamed",
+  create: "Created",
+  delete: "Deleted",
+  archive: "Archived",
+  snooze: "Snoozed",
+  undo: "Undone/redone",
+  gc: "Cleaned up",
+};
+
+export type State = {
+  fullyLoaded: boolean;
+  entries: Activity[]; // entries are sorted newest first
+};
+
+export type Activity = {
+  key: string;
+  logged_at: Date;
+  type: ActivityType;
+  description: string;
+};
+
+/** The maximum number of activities to keep in the log.  Older activities are
+ * dropped during garbage collection. */
+export const MAX_ENTRIES = 1000;
+
+export function src2state(e: Entry<string, SourceValue>): Activity {
+  return reactive({
+    key: e.key,
+    logged_at: new Date(e.value.logged_at),
+    type: e.value.type,
+    description: e.value.description,
+  });
+}
+
+export class Model {
+  readonly state: State = reactive({
+    fullyLoaded: false,
+    entries: [],
+  });
+
+  private _kvs: KeyValueStore<string, SourceValue>;
+  private _filter: undefined | ((activity: Activity) => boolean);
+
+  constructor(kvs: KeyValueStore<string, SourceValue>) {
+    this._kvs = kvs;
+
+    kvs.onSet.addListener(records => this.onSet(records));
+    kvs.onSyncLost.addListener(() => this.onSyncLost());
+  }
+
+  onSet(records: MaybeEntry<string, SourceValue>[]) {
+    const deleted = new Set<string>();
+
+    for (const r of records) {
+      if (!entryHasValue(r)) {
+        deleted.add(r.key);
+        continue;
+      }
+
+      // Activities never change once they're logged, so we only need to
+      // worry about new ones.
+      if (this.state.entries.some(e => e.key === r.key)) continue;
+
+      const activity = src2state(r);
+      if (this._filter && !this._filter(activity)) continue;
+
+      // As with deleted items, we only insert new entries if they're newer
+      // than the oldest entry we already have; otherwise we just tell the UI
+      // there's more to load.
+      const oldest = this.state.entries[this.state.entries.length - 1];
+      if (!oldest || activity.key < oldest.key) {
+        this.state.fullyLoaded = false;
+        continue;
+      }
+
+      this.state.entries.push(activity);
+      this.state.entries.sort((a, b) =>
+        a.key < b.key ? 1 : a.key > b.key ? -1 : 0,
+      );
+    }
+
+    if (deleted.size > 0) {
+      this.state.entries = this.state.entries.filter(
+        ({key}) => !deleted.has(key),
+      );
+    }
+  }
+
+  onSyncLost() {
+    // As with deleted items, the easiest way to recover is to ask the UI to
+    // reload everything.
+    this.state.entries = [];
+    this.state.fullyLoaded = false;
+  }
+
+  /** Reset the model to the "empty" state, such that subsequent calls to
+   * `loadMore()` load only those activities which match the predicate. */
+  filter(predicate?: (activity: Activity) => boolean) {
+    this.state.fullyLoaded = false;
+    this.state.entries = [];
+    this._filter = predicate;
+  }
+
+  loadMore = nonReentrant(async () => {
+    const starting_filter = this._filter;
+    const starting_count = this.state.entries.length;
+    let bound =
+      this.state.entries.length > 0
+        ? this.state.entries[this.state.entries.length - 1].key
+        : undefined;
+
+    // Keep trying until we load at least one entry, or we run out of
+    // entries to load (see the same loop in deleted-items.ts).
+    while (starting_count === this.state.entries.length) {
+      if (starting_filter !== this._filter) break;
+
+      const block = await this._kvs.getEndingAt(bound, 20);
+      for (const rec of block) {
+        const activity = src2state(rec);
+        if (this._filter && !this._filter(activity)) continue;
+        this.state.entries.push(activity);
+      }
+
+      if (block.length === 0) {
+        this.state.fullyLoaded = true;
+        break;
+      }
+      bound = block[block.length - 1].key;
+    }
+  });
+
+  /** Record something Tab Stash did to the stash. */
+  async log(
+    type: ActivityType,
+    description: string,
+    logged_at?: Date,
+  ): Promise<Entry<string, SourceValue>> {
+    if (!logged_at) logged_at = new Date();
+
+    const entry = {
+      key: makeTimestampKey(logged_at),
+      value: {logged_at: logged_at.toISOString(), type, description},
+    };
+
+    await this._kvs.set([entry]);
+    // We will get an event that the entry has been added, which will update
+    // our state as appropriate.
+    return entry;
+  }
+
+  /** Drop the oldest activities so that at most `max_entries` remain.
+   *
+   * Like `DeletedItems.Model.dropOlderThan()`, we go directly to the KVS
+   * regardless of what's loaded into the model. */
+  async gc(max_entries: number = MAX_ENTRIES): Promise<void> {
+    let count = 0;
+    const to_delete: {key: string}[] = [];
+    for await (const rec of this._kvs.listReverse()) {
+      if (++count > max_entries) to_delete.push({key: rec.key});
+    }
+
+    // Don't delete while we're still iterating over the KVS
+    while (to_delete.length > 0) {
+      await this._kvs.set(to_delete.splice(0, 50));
+    }
+  }
+}
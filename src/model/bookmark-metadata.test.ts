@@ -5,7 +5,12 @@ import * as events from "../mock/events";
 import {KVSCache} from "../datastore/kvs";
 import MemoryKVS from "../datastore/kvs/memory";
 import type {BookmarkMetadata} from "./bookmark-metadata";
-import {Model} from "./bookmark-metadata";
+import {
+  Model,
+  normalizeTags,
+  parseTagQuery,
+  windowMetadataId,
+} from "./bookmark-metadata";
 
 describe("model/bookmark-metadata", () => {
   let kvc: KVSCache<string, BookmarkMetadata>;
@@ -29,6 +34,141 @@ describe("model/bookmark-metadata", () => {
     expect(kvc.get("foo").value).to.deep.equal({collapsed: false});
   });
 
+  it("snoozes and un-snoozes bookmarks", async () => {
+    model.setCollapsed("foo", true);
+    await model.setSnoozedUntil("foo", 42);
+    expect(kvc.get("foo").value).to.deep.equal({
+      collapsed: true,
+      snoozed_until: 42,
+    });
+
+    await model.setSnoozedUntil("foo", undefined);
+    expect(kvc.get("foo").value).to.deep.equal({collapsed: true});
+  });
+
+  it("lists snoozed items in the order they wake up", async () => {
+    await model.setSnoozedUntil("foo", 200);
+    await model.setSnoozedUntil("bar", 100);
+    model.setCollapsed("baz", true);
+
+    expect(await model.snoozedItems()).to.deep.equal([
+      {id: "bar", until: 100},
+      {id: "foo", until: 200},
+    ]);
+  });
+
+  it("tags and un-tags bookmarks", async () => {
+    model.setCollapsed("foo", true);
+    await model.setTags("foo", ["a", "b"]);
+    expect(kvc.get("foo").value).to.deep.equal({
+      collapsed: true,
+      tags: ["a", "b"],
+    });
+
+    await model.setTags("foo", []);
+    expect(kvc.get("foo").value).to.deep.equal({collapsed: true});
+  });
+
+  it("adds and removes notes", async () => {
+    model.setCollapsed("foo", true);
+    await model.setNote("foo", "  Saved for later\n");
+    expect(kvc.get("foo").value).to.deep.equal({
+      collapsed: true,
+      note: "Saved for later",
+    });
+
+    await model.setNote("foo", " ");
+    expect(kvc.get("foo").value).to.deep.equal({collapsed: true});
+  });
+
+  it("keeps the rest of entries which haven't been loaded yet", async () => {
+    const old = {collapsed: true, snoozed_until: 1};
+    await kvc.kvs.set(
+      ["snoozed", "tagged", "noted", "sorted"].map(key => ({key, value: old})),
+    );
+
+    // A fresh cache, like the background page has, which hasn't loaded any of
+    // the entries.
+    const other = new Model(new KVSCache(kvc.kvs));
+    await other.setSnoozedUntil("snoozed", undefined);
+    await other.setTags("tagged", ["work"]);
+    await other.setNote("noted", "Saved for later");
+    await other.setKeepSorted("sorted", "title");
+    await other.load([]);
+
+    expect(
+      await kvc.kvs.get(["snoozed", "tagged", "noted", "sorted"]),
+    ).to.deep.equal([
+      {key: "snoozed", value: {collapsed: true}},
+      {key: "tagged", value: {...old, tags: ["work"]}},
+      {key: "noted", value: {...old, note: "Saved for later"}},
+      {key: "sorted", value: {...old, keep_sorted: "title"}},
+    ]);
+  });
+
+  it("cleans up tags before saving them", () => {
+    expect(normalizeTags([" a ", "", "B", "b", "  ", "c"])).to.deep.equal([
+      "a",
+      "B",
+      "c",
+    ]);
+  });
+
+  it("checks whether bookmarks have tags", async () => {
+    await model.setTags("foo", ["Read Later", "work"]);
+    expect(model.hasTags("foo", [])).to.be.true;
+    expect(model.hasTags("foo", ["read later"])).to.be.true;
+    expect(model.hasTags("foo", ["work", "read later"])).to.be.true;
+    expect(model.hasTags("foo", ["work", "home"])).to.be.false;
+    expect(model.hasTags("bar", ["work"])).to.be.false;
+  });
+
+  it("lists all tags in use", async () => {
+    await model.setTags("foo", ["Work", "read later"]);
+    await model.setTags("bar", ["work"]);
+    model.setCollapsed("baz", true);
+
+    expect(await model.allTags()).to.deep.equal([
+      {tag: "read later", count: 1},
+      {tag: "work", count: 2},
+    ]);
+  });
+
+  it("reports whether changes affect the tags in use", async () => {
+    await model.setTags("foo", ["work"]);
+    model.setCollapsed("bar", true);
+    await model.allTags();
+
+    expect(model.tagsChangedIn([{key: "bar", value: {collapsed: false}}])).to.be
+      .false;
+    expect(
+      model.tagsChangedIn([
+        {key: "foo", value: {tags: ["work"], collapsed: true}},
+      ]),
+    ).to.be.false;
+    expect(model.tagsChangedIn([{key: "foo", value: {tags: ["play"]}}])).to.be
+      .true;
+    expect(model.tagsChangedIn([{key: "foo"}])).to.be.true;
+    expect(model.tagsChangedIn([{key: "bar", value: {tags: ["work"]}}])).to.be
+      .true;
+  });
+
+  it("parses tags out of search queries", () => {
+    expect(parseTagQuery("foo")).to.deep.equal({tags: [], text: "foo"});
+    expect(parseTagQuery("tag:work foo")).to.deep.equal({
+      tags: ["work"],
+      text: "foo",
+    });
+    expect(parseTagQuery('foo tag:"read later" bar TAG:x')).to.deep.equal({
+      tags: ["read later", "x"],
+      text: "foo bar",
+    });
+    expect(parseTagQuery("footag:bar")).to.deep.equal({
+      tags: [],
+      text: "footag:bar",
+    });
+  });
+
   it("garbage-collects unused bookmarks", async () => {
     model.setCollapsed("foo", true);
     model.setCollapsed("bar", false);
@@ -47,4 +187,35 @@ describe("model/bookmark-metadata", () => {
       {key: "foo", value: {collapsed: true}},
     ]);
   });
+
+  it("forgets a window's workspace even if it hasn't been loaded", async () => {
+    const id = windowMetadataId(1);
+    await kvc.kvs.set([
+      {
+        key: id,
+        value: {workspace: "a", previous_workspace: "b", collapsed: true},
+      },
+    ]);
+
+    // A fresh cache, like the background page has, which hasn't loaded it.
+    const other = new Model(new KVSCache(kvc.kvs));
+    await other.forgetWorkspace(1);
+    await other.load([]);
+
+    expect(await kvc.kvs.get([id])).to.deep.equal([
+      {key: id, value: {collapsed: true}},
+    ]);
+  });
+
+  it("forgets all windows", async () => {
+    model.setWorkspace(1, "folder");
+    model.setCollapsed(windowMetadataId(2), true);
+    model.setCollapsed("foo", true);
+    await kvc.sync();
+
+    await model.forgetAllWindows();
+    expect(
+      await kvc.kvs.get([windowMetadataId(1), windowMetadataId(2), "foo"]),
+    ).to.deep.equal([{key: "foo", value: {collapsed: true}}]);
+  });
 });
@@ -7,18 +7,147 @@ export type BookmarkMetadataEntry = MaybeEntry<string, BookmarkMetadata>;
 export type BookmarkMetadata = {
   /** For folders, should the folder be shown as collapsed in the UI? */
   collapsed?: boolean;
+
+  /** If set, the bookmark (or folder) is "snoozed" and should be re-opened
+   * automatically at this time (in milliseconds since the epoch). */
+  snoozed_until?: number;
+
+  /** For bookmarks, the cookieStoreId of the (Firefox) container the tab was
+   * in when it was stashed, so it can be restored into the same container.
+   * Not set for tabs in the default container. */
+  container?: string;
+
+  /** Free-form tags the user has attached to the bookmark or folder.  Tags are
+   * kept in the order the user entered them, without duplicates (ignoring
+   * case). */
+  tags?: string[];
+
+  /** A free-text note the user has written about the bookmark or folder (e.g.
+   * why it was saved). */
+  note?: string;
+
+  /** For bookmarks, when the bookmark was last restored (or its URL was last
+   * looked at in a tab), in milliseconds since the epoch.  Not set for
+   * bookmarks which haven't been opened since they were stashed. */
+  last_opened?: number;
+
+  /** For bookmarks, the result of the last time we checked whether the
+   * bookmark's URL still works (see tasks/check-links.ts). */
+  link_check?: LinkCheck;
+
+  /** For folders, if set, the folder's contents are re-sorted in this order
+   * whenever items are added to it. */
+  keep_sorted?: SortOrder;
+
+  /** For windows (see windowMetadataId()), the ID of the folder holding the
+   * window's current workspace--that is, the folder the window's tabs will be
+   * stashed into when the user switches to a different workspace. */
+  workspace?: string;
+
+  /** For windows, the workspace the window was showing before the most recent
+   * switch (so the switch can be undone). */
+  previous_workspace?: string;
 };
 
+/** The orders in which the contents of a folder can be sorted. */
+export type SortOrder = "title" | "domain" | "date_added" | "last_visited";
+
+/** The result of checking whether a bookmark's URL still works:
+ *
+ * - `alive`: The site loaded at the same URL.
+ * - `redirected`: The site loaded, but at a different URL (`final_url`).
+ * - `error`: The site couldn't be loaded at all (e.g. the browser showed an
+ *   error page instead).
+ * - `timeout`: The site didn't finish loading in time.  This doesn't mean the
+ *   link is dead--the site may just be slow. */
+export type LinkCheck = {
+  status: LinkStatus;
+  /** The URL which was checked.  If the bookmark's URL has changed since, the
+   * result no longer applies to it (see isLinkCheckCurrent()). */
+  url: string;
+  /** When the link was checked, in milliseconds since the epoch. */
+  checked_at: number;
+  final_url?: string;
+};
+
+export type LinkStatus = "alive" | "redirected" | "error" | "timeout";
+
+/** Does a link check (if any) still describe a bookmark whose URL is now
+ * `url`? */
+export function isLinkCheckCurrent(
+  check: LinkCheck | undefined,
+  url: string,
+): check is LinkCheck {
+  return check !== undefined && check.url === url;
+}
+
+/** A bookmark or folder which is waiting to be re-opened. */
+export type SnoozedItem = {id: string; until: number};
+
 /** The ID we use for storing metadata about the current window (i.e. not a
  * bookmark at all). */
 export const CUR_WINDOW_MD_ID = "";
 
-/** Keeps track of bookmark metadata in local storage.  Right now this just
- * tracks whether folders should be shown as collapsed or expanded, but more
- * could be added later if needed. */
+/** The prefix of the IDs we use for storing metadata about a specific browser
+ * window (as opposed to CUR_WINDOW_MD_ID, which is shared by all windows). */
+const WINDOW_MD_ID_PREFIX = "window:";
+
+/** Returns the ID we use for storing metadata about a specific window. */
+export function windowMetadataId(windowId: number): string {
+  return `${WINDOW_MD_ID_PREFIX}${windowId}`;
+}
+
+/** If `id` was returned by windowMetadataId(), returns the window ID;
+ * otherwise returns `undefined`. */
+export function windowIdFromMetadataId(id: string): number | undefined {
+  if (!id.startsWith(WINDOW_MD_ID_PREFIX)) return undefined;
+  const windowId = Number(id.slice(WINDOW_MD_ID_PREFIX.length));
+  return Number.isInteger(windowId) ? windowId : undefined;
+}
+
+/** Cleans up a list of tags entered by the user--leading/trailing whitespace
+ * is removed, and empty and duplicate tags (ignoring case) are dropped. */
+export function normalizeTags(tags: readonly string[]): string[] {
+  const seen = new Set<string>();
+  const res: string[] = [];
+  for (const t of tags) {
+    const tag = t.trim();
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    res.push(tag);
+  }
+  return res;
+}
+
+/** Splits a search query into its `tag:` tokens and the remaining free-form
+ * text.  Tags may be quoted if they contain spaces (e.g. `tag:"to read"`). */
+export function parseTagQuery(query: string): {tags: string[]; text: string} {
+  const tags: string[] = [];
+  const text = query
+    .replace(/(^|\s)tag:(?:"([^"]*)"|(\S*))/gi, (_, space, quoted, bare) => {
+      const tag = (quoted ?? bare).trim();
+      if (tag) tags.push(tag);
+      return space;
+    })
+    .replace(/\s+/g, " ")
+    .trim();
+  return {tags, text};
+}
+
+/** Keeps track of bookmark metadata in local storage, such as whether folders
+ * should be shown as collapsed or expanded, and when snoozed items should be
+ * re-opened.
+ *
+ * Methods which change only part of an entry load (or merge into) the entry
+ * first, so the rest of it isn't lost if it was never loaded (as is usually
+ * the case in the background page). */
 export class Model {
   private readonly _kvc: KVSCache<string, BookmarkMetadata>;
 
+  /** The tags each entry had as of the last call to allTags(), so we can tell
+   * which changes affect its result (see tagsChangedIn()). */
+  private _last_tags = new Map<string, readonly string[]>();
+
   constructor(kvc: KVSCache<string, BookmarkMetadata>) {
     this._kvc = kvc;
   }
@@ -31,10 +160,189 @@ export class Model {
     return this._kvc.set(id, metadata);
   }
 
+  /** Fired whenever any metadata changes, no matter who changed it. */
+  get onSet() {
+    return this._kvc.kvs.onSet;
+  }
+
   setCollapsed(id: string, collapsed: boolean) {
     this.set(id, {...(this.get(id).value || {}), collapsed});
   }
 
+  /** Snooze a bookmark or folder until the specified time, or un-snooze it if
+   * `until` is undefined. */
+  async setSnoozedUntil(id: string, until: number | undefined) {
+    await this.loadForUpdate(id);
+    const {snoozed_until, ...rest} = this.get(id).value || {};
+    this.set(id, until === undefined ? rest : {...rest, snoozed_until: until});
+  }
+
+  /** Remember which container a bookmark's tab should be restored into (or
+   * forget it, if `cookieStoreId` is undefined). */
+  setContainer(id: string, cookieStoreId: string | undefined) {
+    this._kvc.merge(id, md => {
+      const {container, ...rest} = md || {};
+      return cookieStoreId === undefined
+        ? rest
+        : {...rest, container: cookieStoreId};
+    });
+  }
+
+  /** Remember that a bookmark was opened at time `at` (in milliseconds since
+   * the epoch). */
+  setLastOpened(id: string, at: number) {
+    this._kvc.merge(id, md => ({...(md || {}), last_opened: at}));
+  }
+
+  /** Remember the result of checking a bookmark's link (or forget it, if
+   * `check` is undefined). */
+  setLinkCheck(id: string, check: LinkCheck | undefined) {
+    this._kvc.merge(id, md => {
+      const {link_check, ...rest} = md || {};
+      return check === undefined ? rest : {...rest, link_check: check};
+    });
+  }
+
+  /** Replace the tags on a bookmark or folder.  The tags are cleaned up with
+   * normalizeTags() first; if there are none left, the tags are removed. */
+  async setTags(id: string, tags: readonly string[]) {
+    const normalized = normalizeTags(tags);
+    await this.loadForUpdate(id);
+    const {tags: _, ...rest} = this.get(id).value || {};
+    this.set(id, normalized.length > 0 ? {...rest, tags: normalized} : rest);
+  }
+
+  /** Attach a note to a bookmark or folder.  Leading/trailing whitespace is
+   * removed; if nothing is left, the note is removed entirely. */
+  async setNote(id: string, note: string) {
+    const trimmed = note.trim();
+    await this.loadForUpdate(id);
+    const {note: _, ...rest} = this.get(id).value || {};
+    this.set(id, trimmed ? {...rest, note: trimmed} : rest);
+  }
+
+  /** Keep a folder sorted in the specified order from now on (or stop
+   * keeping it sorted, if `by` is undefined). */
+  async setKeepSorted(id: string, by: SortOrder | undefined) {
+    await this.loadForUpdate(id);
+    const {keep_sorted, ...rest} = this.get(id).value || {};
+    this.set(id, by === undefined ? rest : {...rest, keep_sorted: by});
+  }
+
+  /** Does the bookmark or folder have all of the specified tags (ignoring
+   * case)?  Metadata which hasn't been loaded yet is treated as having no
+   * tags. */
+  hasTags(id: string, tags: readonly string[]): boolean {
+    if (tags.length === 0) return true;
+    const have = new Set(
+      (this.get(id).value?.tags ?? []).map(t => t.toLowerCase()),
+    );
+    return tags.every(t => have.has(t.toLowerCase()));
+  }
+
+  /** Make sure the metadata for the specified bookmarks has been loaded, so it
+   * can be read with get(). */
+  async load(ids: string[]) {
+    for (const id of ids) this.get(id);
+    await this._kvc.sync();
+  }
+
+  /** Make sure an entry has been loaded before changing part of it.  (If it's
+   * loaded already, we don't wait for anything, so changes made in the same
+   * tick are still written together.) */
+  private async loadForUpdate(id: string) {
+    if (this.get(id).value === undefined) await this.load([id]);
+  }
+
+  /** Remember that a window is now showing the workspace in folder
+   * `folderId`.  The workspace the window was showing before (if any) is kept
+   * as the window's `previous_workspace`. */
+  setWorkspace(windowId: number, folderId: string) {
+    const id = windowMetadataId(windowId);
+    const {workspace, previous_workspace, ...rest} = this.get(id).value || {};
+    const prev =
+      workspace !== undefined && workspace !== folderId
+        ? workspace
+        : previous_workspace;
+    this.set(
+      id,
+      prev !== undefined
+        ? {...rest, workspace: folderId, previous_workspace: prev}
+        : {...rest, workspace: folderId},
+    );
+  }
+
+  /** Forget everything we know about a window's workspaces (e.g. because the
+   * window was closed, and its ID may be reused later). */
+  async forgetWorkspace(windowId: number) {
+    const id = windowMetadataId(windowId);
+    await this.loadForUpdate(id);
+    const md = this.get(id).value;
+    if (!md?.workspace && !md?.previous_workspace) return;
+    const {workspace, previous_workspace, ...rest} = md;
+    this.set(id, rest);
+  }
+
+  /** Forget everything we know about every window.  Window IDs are only
+   * unique until the browser restarts, so this should be done whenever the
+   * browser starts, lest new windows inherit the workspaces of old ones. */
+  async forgetAllWindows() {
+    await this._kvc.sync();
+
+    const toDelete = [];
+    for await (const ent of this._kvc.kvs.list()) {
+      if (windowIdFromMetadataId(ent.key) === undefined) continue;
+      toDelete.push({key: ent.key});
+    }
+    await this._kvc.kvs.set(toDelete);
+  }
+
+  /** Returns all the snoozed items, ordered by when they should wake up. */
+  async snoozedItems(): Promise<SnoozedItem[]> {
+    await this._kvc.sync();
+
+    const items: SnoozedItem[] = [];
+    for await (const ent of this._kvc.kvs.list()) {
+      const until = ent.value.snoozed_until;
+      if (until !== undefined) items.push({id: ent.key, until});
+    }
+    return items.sort((a, b) => a.until - b.until);
+  }
+
+  /** Returns every tag in use, along with how many bookmarks/folders have
+   * it, ordered by tag name (ignoring case). */
+  async allTags(): Promise<{tag: string; count: number}[]> {
+    await this._kvc.sync();
+
+    const counts = new Map<string, {tag: string; count: number}>();
+    this._last_tags.clear();
+    for await (const ent of this._kvc.kvs.list()) {
+      if (ent.value.tags?.length) this._last_tags.set(ent.key, ent.value.tags);
+      for (const tag of ent.value.tags ?? []) {
+        const key = tag.toLowerCase();
+        const c = counts.get(key);
+        if (c) c.count++;
+        else counts.set(key, {tag, count: 1});
+      }
+    }
+    return Array.from(counts.values()).sort((a, b) =>
+      a.tag.localeCompare(b.tag, undefined, {sensitivity: "base"}),
+    );
+  }
+
+  /** Given the entries from an `onSet` event, returns true if any of them
+   * added or removed tags since the last call to allTags() (i.e. if it's worth
+   * calling allTags() again). */
+  tagsChangedIn(entries: readonly BookmarkMetadataEntry[]): boolean {
+    return entries.some(e => {
+      const before = this._last_tags.get(e.key) ?? [];
+      const after = e.value?.tags ?? [];
+      return (
+        before.length !== after.length || before.some((t, i) => t !== after[i])
+      );
+    });
+  }
+
   /** Remove metadata for bookmarks for whom `keep(id)` returns false. */
   async gc(keep: (id: string) => boolean) {
     const toDelete = [];
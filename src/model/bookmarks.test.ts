@@ -3,7 +3,7 @@ import type {Bookmarks} from "webextension-polyfill";
 import browser from "webextension-polyfill";
 
 import * as events from "../mock/events";
-import {nextTick} from "../util";
+import {EXACT_URL_MATCHING, nextTick} from "../util";
 
 import * as M from "./bookmarks";
 
@@ -83,6 +83,36 @@ describe("model/bookmarks", () => {
     ]);
   });
 
+  describe("searches the stash root", () => {
+    const search = (q: string) =>
+      Array.from(model.nodesInStashMatching(q)).map(n => n.id);
+
+    it("by bookmark title", () => {
+      expect(search("nested")).to.deep.equal([
+        bms.nested.id,
+        bms.nested_1.id,
+        bms.nested_child.id,
+        bms.nested_child_1.id,
+        bms.nested_2.id,
+      ]);
+    });
+
+    it("by bookmark URL", () => {
+      expect(search("#undyne")).to.deep.equal([bms.undyne.id]);
+    });
+
+    it("by friendly folder name", () => {
+      expect(search("^saved-")).to.deep.equal([]);
+      expect(search("^saved ")).to.deep.equal([bms.unnamed.id]);
+      expect(search("^big")).to.deep.equal([bms.big_stash.id]);
+    });
+
+    it("but not outside the stash root", () => {
+      expect(search("alice")).to.deep.equal([]);
+      expect(search("doug")).to.deep.equal([bms.doug_2.id]);
+    });
+  });
+
   it("inserts bookmarks into the tree", async () => {
     const new_bm = await browser.bookmarks.create({
       title: "New",
@@ -297,6 +327,12 @@ describe("model/bookmarks", () => {
       test("stashed in multiple places", `${B}#2`, ["big_stash", "nested_3"]);
     });
 
+    it("duplicates in the stash", () => {
+      expect(
+        model.duplicatesInStash().map(dups => dups.map(bm => bm.id)),
+      ).to.deep.equal([[bms.two.id, bms.two_two.id]]);
+    });
+
     describe("lookup URL in stash", () => {
       it("returns false for URLs not in bookmarks", async () => {
         expect(model.isURLStashed(`${B}#not-in-bookmarks`)).to.be.false;
@@ -313,6 +349,29 @@ describe("model/bookmarks", () => {
         expect(model.bookmarksWithURL(`${B}#1`).size).to.equal(1);
         expect(model.isURLStashed(`${B}#1`)).to.be.true;
       });
+      it("matches equivalent URLs according to the normalization rules", () => {
+        const old_index = model.bookmarksWithURL(`${B}#1`);
+        expect(model.isURLStashed(`${B}#not-in-bookmarks`)).to.be.false;
+
+        model.setURLNormalization({
+          ...EXACT_URL_MATCHING,
+          ignore_fragment: true,
+        });
+        expect(old_index.size).to.equal(0);
+        expect(model.bookmarksWithURL(`${B}#1`)).to.include(
+          model.node(bms.one.id),
+        );
+        expect(model.bookmarksWithURL(`${B}#1`)).to.include(
+          model.node(bms.doug_1.id),
+        );
+        expect(model.isURLStashed(`${B}#not-in-bookmarks`)).to.be.true;
+
+        model.setURLNormalization(EXACT_URL_MATCHING);
+        expect(model.bookmarksWithURL(`${B}#1`)).to.deep.equal(
+          new Set([model.node(bms.one.id)]),
+        );
+        expect(model.isURLStashed(`${B}#not-in-bookmarks`)).to.be.false;
+      });
     });
   });
 
@@ -322,6 +381,57 @@ describe("model/bookmarks", () => {
       expect(model.stash_root_warning.value).to.be.undefined;
     });
 
+    it("finds the archive root next to the stash root", async () => {
+      events.ignore(undefined);
+      expect(model.archive_root.value).to.be.undefined;
+
+      await model.create({
+        parentId: bms.stash_root.id,
+        title: model.archive_root_name,
+      });
+      expect(model.archive_root.value).to.be.undefined;
+
+      const archive = await model.ensureArchiveRoot();
+      expect(archive.parentId).to.equal(bms.root.id);
+      expect(archive.title).to.equal(model.archive_root_name);
+      expect(model.archive_root.value).to.equal(archive);
+      expect(await model.ensureArchiveRoot()).to.equal(archive);
+
+      await model.rename(archive, "Something Else");
+      expect(model.archive_root.value).to.be.undefined;
+    });
+
+    it("switches between profiles' stash roots", async () => {
+      events.ignore(undefined);
+      const default_root = model.stash_root.value!;
+
+      model.setProfile("Work");
+      expect(model.stash_root_name).to.equal(`${STASH_ROOT_NAME}: Work`);
+      expect(model.stash_root.value).to.be.undefined;
+
+      const work_root = await model.ensureStashRoot();
+      expect(work_root.title).to.equal(`${STASH_ROOT_NAME}: Work`);
+      expect(model.stash_root.value).to.equal(work_root);
+      const bm = await model.create({
+        parentId: work_root.id,
+        title: "Work Thing",
+        url: `${B}#work`,
+      });
+
+      expect(model.isURLStashed(`${B}#work`)).to.be.true;
+      expect(model.isURLStashed(`${B}#1`)).to.be.false;
+      expect(Array.from(model.urlsInStash())).to.deep.equal([`${B}#work`]);
+      expect(model.urlsInStash(["", "Work"])).to.include(`${B}#1`);
+      expect(model.urlsInStash(["", "Work"])).to.include(`${B}#work`);
+      expect(model.urlsInStash(["", "Missing"])).not.to.include(`${B}#work`);
+      expect(model.stashRootFor("")).to.equal(default_root);
+
+      model.setProfile("");
+      expect(model.stash_root.value).to.equal(default_root);
+      expect(model.stashRootFor("Work")).to.equal(work_root);
+      expect(model.isNodeInStashRoot(bm)).to.be.false;
+    });
+
     it("loses the stash root when it is renamed", async () => {
       await browser.bookmarks.update(bms.stash_root.id, {title: "Old Root"});
       await events.next(browser.bookmarks.onChanged);
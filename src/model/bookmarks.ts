@@ -4,16 +4,21 @@ import browser from "webextension-polyfill";
 
 import {
   backingOff,
+  EXACT_URL_MATCHING,
   expect,
   filterMap,
+  normalizeURL,
   shortPoll,
+  textMatcher,
   tryAgain,
-  urlToOpen,
   type OpenableURL,
+  type URLNormalization,
 } from "../util";
 import {trace_fn} from "../util/debug";
 import {logErrorsFrom} from "../util/oops";
 import {EventWiring} from "../util/wiring";
+import type * as ActivityLog from "./activity-log";
+import type * as Journal from "./journal";
 import {pathTo, type Position, type Tree} from "./tree";
 
 /** A node in the bookmark tree. */
@@ -75,11 +80,19 @@ export class Model implements Tree<Folder, Bookmark | Separator> {
   private readonly by_id = new Map<NodeID, Node>();
   private readonly by_url = new Map<OpenableURL, Set<Bookmark>>();
 
+  /** How URLs are normalized before being used as keys in `by_url`. */
+  private _url_normalization: URLNormalization = EXACT_URL_MATCHING;
+
   /** The ID of the root node (set only once the model is loaded). */
   root_id: NodeID | undefined;
 
-  /** The title to look for to locate the stash root. */
-  readonly stash_root_name: string;
+  /** The title of the stash root for the default profile.  Other profiles'
+   * stash roots are named after this one (see `stashRootNameFor()`). */
+  readonly default_stash_root_name: string;
+
+  /** The profile whose stash root is in use; "" is the default profile.  Each
+   * profile has its own, independent stash root. */
+  readonly profile: Ref<string> = ref("");
 
   /** A Vue ref to the root folder for Tab Stash's saved tabs. */
   readonly stash_root: Ref<Folder | undefined> = ref();
@@ -91,6 +104,19 @@ export class Model implements Tree<Folder, Bookmark | Separator> {
     {text: string; help: () => void} | undefined
   > = ref();
 
+  /** A Vue ref to the folder where archived folders are kept (if it exists).
+   * The archive root is the first folder named `archive_root_name` which is a
+   * sibling of the stash root, so nothing in it is considered to be part of
+   * the stash. */
+  readonly archive_root = computed((): Folder | undefined => {
+    const parentId = this.stash_root.value?.parentId;
+    const parent = parentId && this.folder(parentId);
+    if (!parent) return undefined;
+    return this.childrenOf(parent).find(
+      (n): n is Folder => isFolder(n) && n.title === this.archive_root_name,
+    );
+  });
+
   /** The number of selected bookmarks.  This is a ref() rather than a
    * computed() because it's very expensive to compute, so we always update it
    * incrementally.
@@ -102,6 +128,17 @@ export class Model implements Tree<Folder, Bookmark | Separator> {
     () => this.stash_root.value?.$recursiveStats.selectedCount || 0,
   );
 
+  /** If set, changes made through this model are recorded here so they can
+   * be undone later.  Mutators which are undoable on their own (e.g. move())
+   * take an optional `txn` to make them part of a larger operation instead. */
+  journal: Journal.Model | undefined;
+
+  /** If set, user-visible changes made through this model (e.g. renaming
+   * things) are logged here--unless they are part of a larger operation (i.e.
+   * were given a `txn`), in which case the larger operation is logged
+   * instead. */
+  activity_log: ActivityLog.Model | undefined;
+
   /** Tracks folders which are candidates to be the stash root, and their
    * parents (up to the root).  Any changes to these folders should recompute
    * the stash root. */
@@ -131,7 +168,7 @@ export class Model implements Tree<Folder, Bookmark | Separator> {
   }
 
   private constructor(stash_root_name: string) {
-    this.stash_root_name = stash_root_name;
+    this.default_stash_root_name = stash_root_name;
 
     const wiring = new EventWiring(this, {
       onFired: () => {
@@ -150,6 +187,52 @@ export class Model implements Tree<Folder, Bookmark | Separator> {
     wiring.listen(browser.bookmarks.onRemoved, this.whenBookmarkRemoved);
   }
 
+  /** The title to look for to locate the stash root. */
+  get stash_root_name(): string {
+    return this.stashRootNameFor(this.profile.value);
+  }
+
+  /** The title to look for to locate the archive root. */
+  get archive_root_name(): string {
+    return `${this.stash_root_name} Archive`;
+  }
+
+  /** Returns the title of the stash root for a particular profile. */
+  stashRootNameFor(profile: string): string {
+    if (profile === "") return this.default_stash_root_name;
+    return `${this.default_stash_root_name}: ${profile}`;
+  }
+
+  /** Switch to a different profile's stash root (see `profile`).  The stash
+   * root and everything derived from it is updated to match, and the
+   * selection is cleared. */
+  setProfile(profile: string) {
+    if (profile === this.profile.value) return;
+    this.profile.value = profile;
+
+    const name = this.stash_root_name;
+    this._stash_root_watch = new Set(
+      Array.from(this.by_id.values()).filter(
+        (n): n is Folder => isFolder(n) && n.title === name,
+      ),
+    );
+    this._maybeUpdateStashRoot();
+  }
+
+  /** Returns the stash root for any profile (not just the current one), if it
+   * exists.  For profiles other than the current one, this is not reactive. */
+  stashRootFor(profile: string): Folder | undefined {
+    if (profile === this.profile.value) return this.stash_root.value;
+
+    const name = this.stashRootNameFor(profile);
+    return chooseStashRoot(
+      this,
+      Array.from(this.by_id.values()).filter(
+        (n): n is Folder => isFolder(n) && n.title === name,
+      ),
+    )[0];
+  }
+
   dumpState(): any {
     return {
       root: this.root_id,
@@ -219,12 +302,27 @@ export class Model implements Tree<Folder, Bookmark | Separator> {
     return undefined;
   }
 
+  /** Change which URLs are considered to be the "same" page (see
+   * normalizeURL()), and re-index all the bookmarks accordingly.  Any
+   * previously-returned sets from bookmarksWithURL() which no longer apply are
+   * emptied, so reactive users will be updated. */
+  setURLNormalization(rules: URLNormalization) {
+    this._url_normalization = rules;
+
+    const bookmarks: Bookmark[] = [];
+    for (const index of this.by_url.values()) {
+      bookmarks.push(...index);
+      index.clear();
+    }
+    for (const bm of bookmarks) this._add_url(bm);
+  }
+
   /** Returns a (reactive) set of bookmarks with the specified URL. */
   bookmarksWithURL(url: string): Set<Bookmark> {
-    let index = this.by_url.get(urlToOpen(url));
+    let index = this.by_url.get(normalizeURL(url, this._url_normalization));
     if (!index) {
       index = reactive(new Set<Bookmark>());
-      this.by_url.set(urlToOpen(url), index);
+      this.by_url.set(normalizeURL(url, this._url_normalization), index);
     }
     return index;
   }
@@ -274,6 +372,12 @@ export class Model implements Tree<Folder, Bookmark | Separator> {
     return this.isNodeInFolder(node, this.stash_root.value.id);
   }
 
+  /** Returns true if a particular node is in the archive. */
+  isNodeInArchive(node: Node): boolean {
+    if (!this.archive_root.value) return false;
+    return this.isNodeInFolder(node, this.archive_root.value.id);
+  }
+
   /** Given a bookmark node, return the path from the root to the node as an
    * array of NodePositions.  If the node is not present in the tree, throws
    * an exception. */
@@ -313,8 +417,9 @@ export class Model implements Tree<Folder, Bookmark | Separator> {
     return ret;
   }
 
-  /** Return all the URLs present in the stash root. */
-  urlsInStash(): Set<string> {
+  /** Return all the URLs present in the stash root, or in the stash roots of
+   * all the given `profiles` if specified. */
+  urlsInStash(profiles?: string[]): Set<string> {
     const urls = new Set<string>();
 
     const urlsInChildren = (folder: Folder) => {
@@ -326,41 +431,202 @@ export class Model implements Tree<Folder, Bookmark | Separator> {
       }
     };
 
-    if (this.stash_root.value) urlsInChildren(this.stash_root.value);
+    const roots = profiles
+      ? filterMap(profiles, p => this.stashRootFor(p))
+      : this.stash_root.value
+      ? [this.stash_root.value]
+      : [];
+    for (const root of roots) urlsInChildren(root);
 
     return urls;
   }
 
+  /** Return all the bookmarks inside `folder` (including inside its
+   * sub-folders), in the order they appear in the tree. */
+  bookmarksInFolder(folder: Folder): Bookmark[] {
+    const bookmarks: Bookmark[] = [];
+    const collect = (folder: Folder) => {
+      for (const c of folder.children) {
+        const node = this.node(c);
+        if (!node) continue;
+        if ("url" in node) bookmarks.push(node);
+        else if ("children" in node) collect(node);
+      }
+    };
+    collect(folder);
+    return bookmarks;
+  }
+
+  /** Return every set of bookmarks in the stash root which share the same
+   * URL (i.e. the URL is stashed in more than one place).  Bookmarks appear
+   * in the order they appear in the stash, and each set is ordered by where
+   * its first bookmark appears. */
+  duplicatesInStash(): Bookmark[][] {
+    const by_url = new Map<OpenableURL, Bookmark[]>();
+
+    const visit = (folder: Folder) => {
+      for (const node of this.childrenOf(folder)) {
+        if (isFolder(node)) {
+          visit(node);
+        } else if (isBookmark(node)) {
+          const url = normalizeURL(node.url, this._url_normalization);
+          const dups = by_url.get(url);
+          if (dups) dups.push(node);
+          else by_url.set(url, [node]);
+        }
+      }
+    };
+
+    if (this.stash_root.value) visit(this.stash_root.value);
+
+    return Array.from(by_url.values()).filter(bms => bms.length > 1);
+  }
+
+  /** Return all the bookmarks and folders in the stash root whose titles (or
+   * URLs, for bookmarks) match the query, in the order they appear in the
+   * stash.  Matching is done the same way as the search box in the UI. */
+  *nodesInStashMatching(query: string): Generator<Bookmark | Folder> {
+    if (!this.stash_root.value) return;
+    const matches = textMatcher(query);
+
+    // A stack of folders we're visiting, and where we are in each one.
+    const stack: {folder: Folder; index: number}[] = [
+      {folder: this.stash_root.value, index: 0},
+    ];
+    while (stack.length > 0) {
+      const top = stack[stack.length - 1];
+      if (top.index >= top.folder.children.length) {
+        stack.pop();
+        continue;
+      }
+
+      const node = this.node(top.folder.children[top.index++]);
+      if (!node) continue;
+
+      if (isFolder(node)) {
+        if (matches(friendlyFolderName(node.title))) yield node;
+        stack.push({folder: node, index: 0});
+      } else if (isBookmark(node)) {
+        if (matches(node.title) || matches(node.url)) yield node;
+      }
+    }
+  }
+
   //
   // Mutators
   //
 
   /** Creates a bookmark and waits for the model to reflect the creation.
-   * Returns the bookmark node in the model. */
-  async create(bm: browser.Bookmarks.CreateDetails): Promise<Node> {
+   * Returns the bookmark node in the model.  The creation is recorded as part
+   * of `txn`, if it's given. */
+  async create(
+    bm: browser.Bookmarks.CreateDetails,
+    txn?: Journal.Transaction,
+  ): Promise<Node> {
     const ret = await browser.bookmarks.create(bm);
-    return await shortPoll(() => {
+    const node = await shortPoll(() => {
       const bm = this.by_id.get(ret.id as NodeID);
       if (!bm) tryAgain();
       return bm;
     });
+
+    const j = this.journal;
+    j?.record(txn, {
+      undo: async () => {
+        // Don't use remove() here; we don't want to clean up empty folders
+        // since they may have been created as part of the same operation.
+        const id = j.resolve(node.id);
+        if (isFolder(node)) return await this.removeTree(id);
+        await browser.bookmarks.remove(id);
+        await shortPoll(() => {
+          if (this.by_id.has(id)) tryAgain();
+        });
+      },
+      redo: async () => {
+        const old_id = j.resolve(node.id);
+        const parentId = bm.parentId && j.resolve(bm.parentId);
+        j.remap(old_id, (await this.create({...bm, parentId})).id);
+      },
+    });
+
+    return node;
   }
 
   /** Updates a bookmark's title and waits for the model to reflect the
    * update. */
-  async rename(bm: Bookmark | Folder, title: string): Promise<void> {
-    await browser.bookmarks.update(bm.id, {title});
-    await shortPoll(() => {
-      if (bm.title !== title) tryAgain();
-    });
+  async rename(
+    bm: Bookmark | Folder,
+    title: string,
+    txn?: Journal.Transaction,
+  ): Promise<void> {
+    const old_title = bm.title;
+    const j = this.journal;
+    const update = async (id: NodeID, title: string) => {
+      await browser.bookmarks.update(id, {title});
+      await shortPoll(() => {
+        if (this.node(id)?.title !== title) tryAgain();
+      });
+    };
+
+    await this._journaled(
+      `renamed "${friendlyFolderName(old_title)}" to ` +
+        `"${friendlyFolderName(title)}"`,
+      async t => {
+        await update(bm.id, title);
+        if (!txn) {
+          await this.activity_log?.log(
+            "rename",
+            `renamed "${friendlyFolderName(old_title)}" to ` +
+              `"${friendlyFolderName(title)}"`,
+          );
+        }
+        j?.record(t, {
+          undo: () => update(j.resolve(bm.id), old_title),
+          redo: () => update(j.resolve(bm.id), title),
+        });
+      },
+      txn,
+    );
+  }
+
+  /** Updates a bookmark's URL and waits for the model to reflect the
+   * update. */
+  async setURL(
+    bm: Bookmark,
+    url: string,
+    txn?: Journal.Transaction,
+  ): Promise<void> {
+    const old_url = bm.url;
+    const j = this.journal;
+    const update = async (id: NodeID, url: string) => {
+      await browser.bookmarks.update(id, {url});
+      await shortPoll(() => {
+        const node = this.node(id);
+        if (!node || !("url" in node) || node.url !== url) tryAgain();
+      });
+    };
+
+    await this._journaled(
+      `changed the URL of "${bm.title}"`,
+      async t => {
+        await update(bm.id, url);
+        j?.record(t, {
+          undo: () => update(j.resolve(bm.id), old_url),
+          redo: () => update(j.resolve(bm.id), url),
+        });
+      },
+      txn,
+    );
   }
 
   /** Deletes a bookmark and waits for the model to reflect the deletion.
    *
    * If the node is part of the stash and belongs to an unnamed folder which
    * is now empty, cleanup that folder as well.
+   *
+   * The deletion is recorded as part of `txn`, if it's given.
    */
-  async remove(id: NodeID): Promise<void> {
+  async remove(id: NodeID, txn?: Journal.Transaction): Promise<void> {
     const node = this.node(id);
     if (!node) return;
 
@@ -374,7 +640,23 @@ export class Model implements Tree<Folder, Bookmark | Separator> {
       if (this.by_id.has(id)) tryAgain();
     });
 
-    if (pos) await this.maybeCleanupEmptyFolder(pos.parent);
+    const j = this.journal;
+    if (pos && !isSeparator(node)) {
+      j?.record(txn, {
+        undo: async () => {
+          const created = await this.create({
+            parentId: j.resolve(pos.parent.id),
+            index: pos.index,
+            title: node.title,
+            ...("url" in node ? {url: node.url} : {}),
+          });
+          j.remap(j.resolve(id), created.id);
+        },
+        redo: () => this.remove(j.resolve(id)),
+      });
+    }
+
+    if (pos) await this.maybeCleanupEmptyFolder(pos.parent, txn);
   }
 
   /** Deletes an entire tree of bookmarks and waits for the model to reflect
@@ -395,7 +677,48 @@ export class Model implements Tree<Folder, Bookmark | Separator> {
    *
    * Use this instead of `browser.bookmarks.move()`, which behaves differently
    * in Chrome and Firefox... */
-  async move(id: NodeID, toParent: NodeID, toIndex: number): Promise<void> {
+  async move(
+    id: NodeID,
+    toParent: NodeID,
+    toIndex: number,
+    txn?: Journal.Transaction,
+  ): Promise<void> {
+    const node = expect(this.node(id), () => `No such bookmark node: ${id}`);
+    const from = expect(
+      this.positionOf(node),
+      () => `Unable to locate node ${id} in its parent`,
+    );
+    const j = this.journal;
+
+    await this._journaled(
+      `moved "${friendlyFolderName(node.title)}"`,
+      async t => {
+        await this._move(id, toParent, toIndex, t);
+        j?.record(t, {
+          undo: async () => {
+            // Put the node back at the same index it had before, accounting for
+            // the fact that it may precede that index in the same folder.
+            const cur = this.positionOf(this.node(j.resolve(id))!);
+            const parent = j.resolve(from.parent.id);
+            const index =
+              cur && cur.parent.id === parent && cur.index < from.index
+                ? from.index + 1
+                : from.index;
+            await this._move(j.resolve(id), parent, index);
+          },
+          redo: () => this._move(j.resolve(id), j.resolve(toParent), toIndex),
+        });
+      },
+      txn,
+    );
+  }
+
+  private async _move(
+    id: NodeID,
+    toParent: NodeID,
+    toIndex: number,
+    txn?: Journal.Transaction,
+  ): Promise<void> {
     // Firefox's `index` parameter behaves like the bookmark is first
     // removed, then re-added.  Chrome's/Edge's behaves like the bookmark is
     // first added, then removed from its old location, so the index of the
@@ -432,7 +755,7 @@ export class Model implements Tree<Folder, Bookmark | Separator> {
       if (pos.parent.id !== toParent || pos.index !== toIndex) tryAgain();
     });
 
-    await this.maybeCleanupEmptyFolder(position.parent);
+    await this.maybeCleanupEmptyFolder(position.parent, txn);
   }
 
   /** Find and return the stash root, or create one if it doesn't exist. */
@@ -471,6 +794,19 @@ export class Model implements Tree<Folder, Bookmark | Separator> {
     return candidates[0];
   }
 
+  /** Find and return the archive root, or create one next to the stash root
+   * (creating the stash root too, if needed) if it doesn't exist. */
+  async ensureArchiveRoot(): Promise<Folder> {
+    if (this.archive_root.value) return this.archive_root.value;
+
+    const stash_root = await this.ensureStashRoot();
+    const bm = await this.create({
+      parentId: stash_root.parentId,
+      title: this.archive_root_name,
+    });
+    return bm as Folder;
+  }
+
   /** Create a new folder at the top of the stash root (creating the stash
    * root itself if it does not exist).  If the name is not specified, a
    * default name will be assigned based on the folder's creation time. */
@@ -478,22 +814,55 @@ export class Model implements Tree<Folder, Bookmark | Separator> {
     name?: string,
     parent?: NodeID,
     position?: "top" | "bottom",
+    txn?: Journal.Transaction,
   ): Promise<Folder> {
-    const stash_root = await this.ensureStashRoot();
-    parent ??= stash_root.id;
-    position ??= "top";
+    const title = name ?? genDefaultFolderName(new Date());
+    return await this._journaled(
+      `created group "${friendlyFolderName(title)}"`,
+      async t => {
+        const stash_root = await this.ensureStashRoot();
+        parent ??= stash_root.id;
+        position ??= "top";
+
+        const bm = await this.create(
+          {
+            parentId: parent,
+            title,
+            // !-cast: this.create() will check the existence of the parent for
+            // us
+            index:
+              position === "top" ? 0 : this.folder(parent)!.children.length,
+          },
+          t,
+        );
+        if (!txn) {
+          await this.activity_log?.log(
+            "create",
+            `created group "${friendlyFolderName(title)}"`,
+          );
+        }
+        return bm as Folder;
+      },
+      txn,
+    );
+  }
 
-    const bm = await this.create({
-      parentId: parent,
-      title: name ?? genDefaultFolderName(new Date()),
-      // !-cast: this.create() will check the existence of the parent for us
-      index: position === "top" ? 0 : this.folder(parent)!.children.length,
-    });
-    return bm as Folder;
+  /** Run `fn()` as a single undoable operation in the journal (if any), or as
+   * part of `txn` if it's given. */
+  private _journaled<R>(
+    description: string,
+    fn: (txn: Journal.Transaction | undefined) => Promise<R>,
+    txn?: Journal.Transaction,
+  ): Promise<R> {
+    if (!this.journal) return fn(undefined);
+    return this.journal.transaction(description, fn, txn);
   }
 
   /** Removes the folder if it is empty, unnamed and within the stash root. */
-  private async maybeCleanupEmptyFolder(folder: Folder) {
+  private async maybeCleanupEmptyFolder(
+    folder: Folder,
+    txn?: Journal.Transaction,
+  ) {
     // Folder does not have a default/unnamed-shape name
     if (getDefaultFolderNameISODate(folder.title) === null) return;
     if (folder.children.length > 0) return;
@@ -505,7 +874,7 @@ export class Model implements Tree<Folder, Bookmark | Separator> {
     //
     // ALSO NOTE: If the folder is suddenly NOT empty due to a race, stale
     // model, etc., this will fail, because the browser itself will throw.
-    await this.remove(folder.id);
+    await this.remove(folder.id, txn);
   }
 
   //
@@ -767,34 +1136,14 @@ export class Model implements Tree<Folder, Bookmark | Separator> {
       bm => bm.children && bm.title === this.stash_root_name,
     );
 
-    // Find the path from each candidate to the root, and make sure we're
-    // watching the whole path (so if a parent gets moved, we get called
-    // again).
-    const paths = filterMap(candidates, c => ({
-      folder: c,
-      path: this.pathTo(c),
-    }));
+    // Make sure we're watching the whole path from each candidate to the root
+    // (so if a parent gets moved, we get called again).
     this._stash_root_watch = new Set(candidates);
-    for (const p of paths) {
-      for (const pos of p.path) this._stash_root_watch.add(pos.parent);
+    for (const c of candidates) {
+      for (const pos of this.pathTo(c)) this._stash_root_watch.add(pos.parent);
     }
 
-    // Find the depth of the candidate closest to the root.
-    const depth = Math.min(...paths.map(p => p.path.length));
-
-    // Filter out candidates that are deeper than the minimum depth, and
-    // sort the remainder in a stable fashion according to their creation
-    // date and ID.
-    candidates = paths
-      .filter(p => p.path.length <= depth)
-      .map(p => p.folder)
-      .sort((a, b) => {
-        const byDate = (a.dateAdded ?? 0) - (b.dateAdded ?? 0);
-        if (byDate !== 0) return byDate;
-        if (a.id < b.id) return -1;
-        if (a.id > b.id) return 1;
-        return 0;
-      });
+    candidates = chooseStashRoot(this, candidates);
 
     // The actual stash root is the first candidate.
     if (this.stash_root.value !== candidates[0]) {
@@ -892,13 +1241,39 @@ export class Model implements Tree<Folder, Bookmark | Separator> {
   }
 
   private _remove_url(bm: Bookmark) {
-    const index = this.by_url.get(urlToOpen(bm.url));
+    const index = this.by_url.get(
+      normalizeURL(bm.url, this._url_normalization),
+    );
     // istanbul ignore if -- internal consistency
     if (!index) return;
     index.delete(bm);
   }
 }
 
+/** Given a list of folders which could be the stash root (because they have
+ * the right name), returns the ones which are closest to the root of the
+ * bookmark tree, sorted in a stable fashion according to their creation date
+ * and ID.  The first one is the stash root. */
+function chooseStashRoot(model: Model, candidates: Folder[]): Folder[] {
+  const paths = candidates.map(c => ({folder: c, path: model.pathTo(c)}));
+
+  // Find the depth of the candidate closest to the root.
+  const depth = Math.min(...paths.map(p => p.path.length));
+
+  // Filter out candidates that are deeper than the minimum depth, and sort the
+  // remainder.
+  return paths
+    .filter(p => p.path.length <= depth)
+    .map(p => p.folder)
+    .sort((a, b) => {
+      const byDate = (a.dateAdded ?? 0) - (b.dateAdded ?? 0);
+      if (byDate !== 0) return byDate;
+      if (a.id < b.id) return -1;
+      if (a.id > b.id) return 1;
+      return 0;
+    });
+}
+
 //
 // Public helper functions for dealing with folders under the stash root
 //
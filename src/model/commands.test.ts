@@ -0,0 +1,114 @@
+import {expect} from "chai";
+import browser from "webextension-polyfill";
+
+import {UserError} from "../util/oops";
+import {isValidShortcut, Model, normalizeShortcut} from "./commands";
+
+describe("model/commands", () => {
+  let model: Model;
+
+  beforeEach(async () => {
+    model = await Model.live();
+  });
+
+  it("loads commands from the browser", () => {
+    expect(model.state.commands).to.deep.equal([
+      {name: "stash_all", description: "Stash tabs", shortcut: ""},
+      {
+        name: "stash_one",
+        description: "Stash this tab",
+        shortcut: "Ctrl+Alt+K",
+      },
+      {
+        name: "show_tab",
+        description: "Show stashed tabs in a tab",
+        shortcut: "",
+      },
+    ]);
+  });
+
+  it("binds a command to a new shortcut", async () => {
+    await model.update("stash_all", "ctrl + shift + s");
+    expect(model.command("stash_all")!.shortcut).to.equal("Ctrl+Shift+S");
+    expect(
+      (await browser.commands.getAll()).find(c => c.name === "stash_all")!
+        .shortcut,
+    ).to.equal("Ctrl+Shift+S");
+  });
+
+  it("removes a shortcut", async () => {
+    await model.update("stash_one", "");
+    expect(model.command("stash_one")!.shortcut).to.equal("");
+  });
+
+  it("resets a shortcut to its default", async () => {
+    await model.update("stash_one", "Alt+F5");
+    expect(model.command("stash_one")!.shortcut).to.equal("Alt+F5");
+    await model.reset("stash_one");
+    expect(model.command("stash_one")!.shortcut).to.equal("Ctrl+Alt+K");
+  });
+
+  it("rejects invalid shortcuts", async () => {
+    try {
+      await model.update("stash_all", "Shift+S");
+      expect.fail("update() should have thrown");
+    } catch (e) {
+      expect(e).to.be.instanceOf(UserError);
+    }
+    expect(model.command("stash_all")!.shortcut).to.equal("");
+  });
+
+  it("rejects shortcuts which are already in use", async () => {
+    try {
+      await model.update("show_tab", "Ctrl+Alt+K");
+      expect.fail("update() should have thrown");
+    } catch (e) {
+      expect(e).to.be.instanceOf(UserError);
+    }
+    expect(model.command("show_tab")!.shortcut).to.equal("");
+  });
+
+  describe("normalizes shortcuts", () => {
+    const cases: [string, string][] = [
+      ["", ""],
+      ["ctrl+shift+s", "Ctrl+Shift+S"],
+      [" Alt + pageup ", "Alt+PageUp"],
+      ["macctrl+f1", "MacCtrl+F1"],
+      ["mediaplaypause", "MediaPlayPause"],
+    ];
+    for (const [input, output] of cases) {
+      it(`"${input}" => "${output}"`, () => {
+        expect(normalizeShortcut(input)).to.equal(output);
+      });
+    }
+  });
+
+  describe("validates shortcuts", () => {
+    const valid = [
+      "",
+      "Ctrl+S",
+      "Ctrl+Shift+1",
+      "Alt+Ctrl+Comma",
+      "Ctrl+F7",
+      "MediaPlayPause",
+    ];
+    const invalid = [
+      "S",
+      "F7",
+      "Shift+F7",
+      "Ctrl+MediaStop",
+      "Shift+S",
+      "Ctrl+Ctrl+S",
+      "Ctrl+Alt+Shift+S",
+      "Ctrl+Shift",
+      "Super+S",
+      "Ctrl+F13",
+    ];
+    for (const s of valid) {
+      it(`"${s}" is valid`, () => expect(isValidShortcut(s)).to.be.true);
+    }
+    for (const s of invalid) {
+      it(`"${s}" is invalid`, () => expect(isValidShortcut(s)).to.be.false);
+    }
+  });
+});
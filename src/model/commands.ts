@@ -0,0 +1,177 @@
+import {reactive} from "vue";
+import browser from "webextension-polyfill";
+
+import {UserError} from "../util/oops";
+
+export type State = {
+  commands: Command[];
+};
+
+export type Command = {
+  name: string;
+  description: string;
+  /** The active shortcut, or "" if the command has no shortcut. */
+  shortcut: string;
+};
+
+/** Descriptions for the browser's built-in commands, which don't always come
+ * with a description of their own. */
+const BUILTIN_DESCRIPTIONS: Record<string, string> = {
+  _execute_browser_action: "Click the toolbar button",
+  _execute_sidebar_action: "Open the sidebar",
+  _execute_page_action: "Click the address-bar button",
+};
+
+const MODIFIERS = ["Alt", "Ctrl", "Command", "MacCtrl", "Shift"];
+
+const NAMED_KEYS = [
+  "Comma",
+  "Period",
+  "Home",
+  "End",
+  "PageUp",
+  "PageDown",
+  "Space",
+  "Insert",
+  "Delete",
+  "Up",
+  "Down",
+  "Left",
+  "Right",
+];
+
+/** Media keys are the only keys which may be used without a modifier. */
+const MEDIA_KEYS = [
+  "MediaNextTrack",
+  "MediaPlayPause",
+  "MediaPrevTrack",
+  "MediaStop",
+];
+
+const SIMPLE_KEYS = /^[A-Z0-9]$/;
+const FUNCTION_KEYS = /^F([1-9]|1[0-2])$/;
+
+/** This model keeps track of the keyboard shortcuts (a.k.a. "commands")
+ * defined in Tab Stash's manifest, and allows the user to change them in
+ * browsers which support doing so (at the time of writing, only Firefox).
+ *
+ * The browser doesn't tell us when shortcuts change, so the model simply
+ * reloads itself after every change it makes. */
+export class Model {
+  readonly state: State;
+
+  static async live(): Promise<Model> {
+    const model = new Model();
+    await model.reload();
+    return model;
+  }
+
+  private constructor() {
+    this.state = reactive({commands: []});
+  }
+
+  async reload() {
+    const cmds = await browser.commands.getAll();
+    this.state.commands = cmds
+      .filter(c => !!c.name)
+      .map(c => ({
+        name: c.name!,
+        description: c.description || BUILTIN_DESCRIPTIONS[c.name!] || c.name!,
+        shortcut: c.shortcut ?? "",
+      }));
+  }
+
+  //
+  // Accessors
+  //
+
+  /** Can the user change shortcuts from within Tab Stash?  (Chrome requires
+   * that shortcuts be changed from the browser's extensions page.) */
+  get canUpdate(): boolean {
+    return !!browser.commands.update;
+  }
+
+  command(name: string): Command | undefined {
+    return this.state.commands.find(c => c.name === name);
+  }
+
+  //
+  // Mutators
+  //
+
+  /** Bind a command to a new shortcut.  An empty shortcut removes the binding
+   * entirely.  Throws a UserError if the shortcut isn't something the browser
+   * would accept. */
+  async update(name: string, shortcut: string) {
+    shortcut = normalizeShortcut(shortcut);
+    if (!isValidShortcut(shortcut)) {
+      throw new UserError(
+        `"${shortcut}" is not a valid shortcut.  Shortcuts must be a ` +
+          `modifier key (Ctrl, Alt, Command or MacCtrl, plus optionally Shift) ` +
+          `followed by a letter, number, function or special key, e.g. ` +
+          `"Ctrl+Shift+S", or a media key on its own.`,
+      );
+    }
+
+    const conflict = this.state.commands.find(
+      c => c.name !== name && shortcut !== "" && c.shortcut === shortcut,
+    );
+    if (conflict) {
+      throw new UserError(
+        `"${shortcut}" is already used for "${conflict.description}".`,
+      );
+    }
+
+    await browser.commands.update({name, shortcut});
+    await this.reload();
+  }
+
+  /** Restore a command's shortcut to the default given in the manifest. */
+  async reset(name: string) {
+    await browser.commands.reset(name);
+    await this.reload();
+  }
+}
+
+/** Tidy up a shortcut the user typed in, so that "ctrl + shift + s" becomes
+ * "Ctrl+Shift+S". */
+export function normalizeShortcut(shortcut: string): string {
+  return shortcut
+    .split("+")
+    .map(p => p.trim())
+    .filter(p => p !== "")
+    .map(
+      p =>
+        [...MODIFIERS, ...NAMED_KEYS, ...MEDIA_KEYS].find(
+          k => k.toLowerCase() === p.toLowerCase(),
+        ) ?? p.toUpperCase(),
+    )
+    .join("+");
+}
+
+/** Check if a shortcut follows the browser's rules for shortcuts: one or two
+ * distinct modifiers (at least one of which isn't Shift) followed by a single
+ * key, or a media key on its own.  (Function keys need a modifier too;
+ * `browser.commands.update()` refuses them otherwise.)  The empty string is
+ * valid, and means "no shortcut". */
+export function isValidShortcut(shortcut: string): boolean {
+  if (shortcut === "") return true;
+  if (MEDIA_KEYS.includes(shortcut)) return true;
+
+  const parts = shortcut.split("+");
+  const key = parts.pop()!;
+  if (
+    !FUNCTION_KEYS.test(key) &&
+    !SIMPLE_KEYS.test(key) &&
+    !NAMED_KEYS.includes(key)
+  ) {
+    return false;
+  }
+
+  if (parts.length === 0 || parts.length > 2) return false;
+  if (new Set(parts).size !== parts.length) return false;
+  if (!parts.every(p => MODIFIERS.includes(p))) return false;
+  if (parts.every(p => p === "Shift")) return false;
+
+  return true;
+}
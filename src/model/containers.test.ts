@@ -0,0 +1,53 @@
+import {expect} from "chai";
+import browser from "webextension-polyfill";
+
+import * as events from "../mock/events";
+
+import {Model} from "./containers";
+
+describe("model/containers", () => {
+  let model: Model;
+
+  beforeEach(async () => {
+    model = await Model.from_browser();
+  });
+
+  it("tracks containers as they are created and removed", async () => {
+    expect(model.enabled).to.be.true;
+    expect(model.all()).to.deep.equal([]);
+
+    const work = await browser.contextualIdentities.create({
+      name: "Work",
+      color: "blue",
+      icon: "briefcase",
+    });
+    await events.next(browser.contextualIdentities.onCreated);
+
+    expect(model.container(work.cookieStoreId)).to.deep.include({
+      name: "Work",
+      color: "blue",
+    });
+    expect(model.all().map(c => c.cookieStoreId)).to.deep.equal([
+      work.cookieStoreId,
+    ]);
+
+    await browser.contextualIdentities.remove(work.cookieStoreId);
+    await events.next(browser.contextualIdentities.onRemoved);
+
+    expect(model.container(work.cookieStoreId)).to.be.undefined;
+    expect(model.all()).to.deep.equal([]);
+  });
+
+  it("reloads containers from the browser", async () => {
+    const home = await browser.contextualIdentities.create({
+      name: "Home",
+      color: "green",
+      icon: "tree",
+    });
+    await events.next(browser.contextualIdentities.onCreated);
+
+    await model.reload();
+    expect(model.all().map(c => c.name)).to.deep.equal(["Home"]);
+    expect(model.container(home.cookieStoreId)?.color).to.equal("green");
+  });
+});
@@ -10,7 +10,7 @@ export type Container = ContextualIdentities.ContextualIdentity;
 type ContainerMap = Map<string, Container>;
 
 export class Model {
-  private containers: ContainerMap = new Map();
+  private readonly containers: ContainerMap = reactive(new Map());
   enabled: boolean;
 
   // Did we receive an event since the last (re)load of the model?
@@ -78,11 +78,11 @@ export class Model {
         break;
       }
     }
-    this.containers = new Map(
-      loaded_containers!
-        .filter(c => c?.cookieStoreId)
-        .map(c => [c.cookieStoreId, this.makeContainerReactive(c)]),
-    );
+    this.containers.clear();
+    for (const c of loaded_containers!) {
+      if (!c?.cookieStoreId) continue;
+      this.containers.set(c.cookieStoreId, this.makeContainerReactive(c));
+    }
   });
 
   private makeContainerReactive(c: Container): Container {
@@ -101,6 +101,12 @@ export class Model {
     return this.containers.get(key);
   }
 
+  /** Returns all the containers the user has, in the order the browser
+   * reported them. */
+  all(): Container[] {
+    return Array.from(this.containers.values());
+  }
+
   // Event handlers
   private whenChanged(
     evt:
@@ -4,7 +4,7 @@
 import {reactive} from "vue";
 
 import {nonReentrant} from "../util";
-import {makeRandomString} from "../util/random";
+import {makeTimestampKey} from "../util/random";
 
 import type {Entry, KeyValueStore, MaybeEntry} from "../datastore/kvs";
 import {entryHasValue} from "../datastore/kvs/proto";
@@ -242,7 +242,7 @@ export class Model {
     if (!deleted_at) deleted_at = new Date();
 
     const entry = {
-      key: genKey(deleted_at),
+      key: makeTimestampKey(deleted_at),
       value: {
         deleted_at: deleted_at.toISOString(),
         deleted_from,
@@ -328,7 +328,10 @@ export class Model {
   // We go directly to the KVS regardless of what's loaded into the model
   // because that way we are guaranteed to see everything, and we don't want
   // to pollute the model with stuff we're about to delete.
-  async dropOlderThan(timestamp: number): Promise<void> {
+  //
+  // Returns how many deleted items were dropped.
+  async dropOlderThan(timestamp: number): Promise<number> {
+    let dropped = 0;
     while (true) {
       const to_delete = [];
       for (const rec of await this._kvs.getStartingFrom(undefined, 50)) {
@@ -339,7 +342,9 @@ export class Model {
 
       if (to_delete.length > 0) await this._kvs.set(to_delete);
       else break;
+      dropped += to_delete.length;
     }
+    return dropped;
   }
 
   /** Insert and return a reactive entry in the model state.  This could be a
@@ -437,7 +442,7 @@ export class Model {
 
     for (let i = 0; i < count; ++i) {
       const deleted_at = new Date(ts);
-      const key = genKey(deleted_at);
+      const key = makeTimestampKey(deleted_at);
       ts -= Math.floor(Math.random() * 6 * 60 * 60 * 1000);
 
       if (Math.random() < 0.5) {
@@ -488,30 +493,3 @@ export class Model {
     if (items.length > 0) await this._kvs.set(items);
   }
 }
-
-let key_seq_no = 0;
-let last_key_date = Date.now();
-
-/** Generates a key for a deleted item which is extremely likely to result in
- * deleted items being sorted in the order they were deleted.  (I say "extremely
- * likely" because for real-world scenarios, this is practically always the
- * case, but it cannot be guaranteed without some global synchronization.)
- *
- * More precisely, returned keys are monotonically increasing with respect to:
- *
- * 1. The `deleted_at` time, and
- * 2. The number of times this function has been called in the current
- *    JavaScript context. (Up to a limit of 100,000 items.)
- */
-function genKey(deleted_at: Date): string {
-  if (deleted_at.valueOf() !== last_key_date) {
-    key_seq_no = 0;
-    last_key_date = deleted_at.valueOf();
-  }
-
-  key_seq_no++;
-
-  return `${deleted_at.toISOString()}-${(1000000 - key_seq_no)
-    .toString()
-    .padStart(6, "0")}-${makeRandomString(4)}`;
-}
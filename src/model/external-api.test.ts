@@ -0,0 +1,237 @@
+import {expect} from "chai";
+import browser from "webextension-polyfill";
+
+import storage_mock from "../mock/browser/storage";
+import * as events from "../mock/events";
+import type {BookmarkFixture} from "./fixtures.testlib";
+import {
+  B,
+  make_bookmarks,
+  make_bookmark_metadata,
+  make_deleted_items,
+  make_favicons,
+  make_tabs,
+  STASH_ROOT_NAME,
+} from "./fixtures.testlib";
+
+import * as M from ".";
+import {KVSCache} from "../datastore/kvs";
+import MemoryKVS from "../datastore/kvs/memory";
+import {_StoredObjectFactory} from "../datastore/stored-object";
+import {shortPoll, tryAgain} from "../util";
+import {clearErrorLog, errorLog} from "../util/oops";
+import {EXTERNAL_API_VERSION, handleExternalMessage} from "./external-api";
+import {LOCAL_DEF, SYNC_DEF} from "./options";
+
+describe("model/external-api", () => {
+  const HELPER = "helper@example.com";
+
+  let bookmarks: BookmarkFixture;
+  let model: M.Model;
+
+  beforeEach(async () => {
+    storage_mock.reset();
+    const stored_object_factory = new _StoredObjectFactory();
+
+    await make_tabs();
+    bookmarks = await make_bookmarks();
+
+    const bookmark_metadata = new MemoryKVS<
+      string,
+      M.BookmarkMetadata.BookmarkMetadata
+    >("bookmark_metadata");
+    await make_bookmark_metadata(bookmark_metadata, bookmarks);
+    const favicons = new MemoryKVS<string, M.Favicons.Favicon>("favicons");
+    await make_favicons(favicons);
+    const deleted_items = new MemoryKVS<string, M.DeletedItems.SourceValue>(
+      "deleted_items",
+    );
+    await make_deleted_items(deleted_items);
+    const activity_log = new MemoryKVS<string, M.ActivityLog.SourceValue>(
+      "activity_log",
+    );
+    events.ignore(activity_log.onSet);
+
+    model = new M.Model({
+      browser_settings: await M.BrowserSettings.Model.live(),
+      options: new M.Options.Model({
+        sync: await stored_object_factory.get("sync", "test_options", SYNC_DEF),
+        local: await stored_object_factory.get(
+          "local",
+          "test_options",
+          LOCAL_DEF,
+        ),
+      }),
+      tabs: await M.Tabs.Model.from_browser(),
+      containers: await M.Containers.Model.from_browser(),
+      bookmarks: await M.Bookmarks.Model.from_browser(STASH_ROOT_NAME),
+      deleted_items: new M.DeletedItems.Model(deleted_items),
+      activity_log: new M.ActivityLog.Model(activity_log),
+      favicons: new M.Favicons.Model(new KVSCache(favicons)),
+      bookmark_metadata: new M.BookmarkMetadata.Model(
+        new KVSCache(bookmark_metadata),
+      ),
+    });
+
+    await model.options.local.set({external_api_allowed_ids: [HELPER]});
+    await events.next(browser.storage.onChanged);
+    await events.next(model.options.local.onChanged);
+    events.ignore(undefined);
+  });
+
+  const send = (message: any, sender: string = HELPER) =>
+    handleExternalMessage(model, message, sender);
+
+  it("refuses requests from extensions which aren't allowed", async () => {
+    const res = await send(
+      {version: 1, op: "listFolders"},
+      "other@example.com",
+    );
+    expect(res.ok).to.be.false;
+    expect(res.version).to.equal(EXTERNAL_API_VERSION);
+  });
+
+  it("refuses requests for unsupported versions", async () => {
+    expect((await send({version: 99, op: "listFolders"})).ok).to.be.false;
+    expect((await send({op: "listFolders"})).ok).to.be.false;
+    expect((await send("listFolders")).ok).to.be.false;
+  });
+
+  it("refuses unknown operations", async () => {
+    expect((await send({version: 1, op: "explode"})).ok).to.be.false;
+  });
+
+  it("doesn't reveal the details of internal errors", async () => {
+    model.bookmarks.childrenOf = () => {
+      throw new Error("secret details");
+    };
+    const res = await send({version: 1, op: "listFolders"});
+    expect(res).to.deep.equal({
+      version: EXTERNAL_API_VERSION,
+      ok: false,
+      error: "Internal error",
+    });
+    expect(errorLog[errorLog.length - 1].summary).to.include("secret details");
+    clearErrorLog();
+  });
+
+  it("lists folders", async () => {
+    const res = await send({version: 1, op: "listFolders"});
+    expect(res.ok).to.be.true;
+    const folders = (res as any).result as M.Bookmarks.Folder[];
+    expect(folders.map(f => f.id)).to.include.members([
+      bookmarks.names.id,
+      bookmarks.unnamed.id,
+      bookmarks.big_stash.id,
+    ]);
+    expect(folders.find(f => f.id === bookmarks.names.id)).to.deep.include({
+      title: "Names",
+      parentId: undefined,
+    });
+  });
+
+  it("searches the stash", async () => {
+    const res = await send({version: 1, op: "search", query: "nate"});
+    expect(res).to.deep.equal({
+      version: EXTERNAL_API_VERSION,
+      ok: true,
+      result: [
+        {
+          type: "bookmark",
+          id: bookmarks.nate.id,
+          title: "Nate NotOpen",
+          url: `${B}#nate`,
+          parentId: model.bookmarks.node(bookmarks.nate.id)!.parentId,
+        },
+      ],
+    });
+  });
+
+  it("stashes URLs into a new group", async () => {
+    const res = await send({
+      version: 1,
+      op: "stash",
+      urls: [
+        "https://example.com/",
+        {url: "https://example.org/", title: "Example"},
+        "about:newtab",
+        42,
+      ],
+      folderTitle: "From Helper",
+    });
+    expect(res.ok).to.be.true;
+
+    const {folderId, count} = (res as any).result;
+    expect(count).to.equal(2);
+    const folder = model.bookmarks.folder(folderId)!;
+    expect(folder.title).to.equal("From Helper");
+    expect(
+      model.bookmarks
+        .childrenOf(folder)
+        .map(c => "url" in c && {title: c.title, url: c.url}),
+    ).to.deep.equal([
+      {title: "https://example.com/", url: "https://example.com/"},
+      {title: "Example", url: "https://example.org/"},
+    ]);
+  });
+
+  it("stashes URLs the same way the user would, in one step", async () => {
+    await model.options.sync.set({
+      stash_rules: [["github.com/*", "Names"]],
+      stash_blocklist: ["*/login*"],
+    });
+    await shortPoll(() => {
+      if (model.options.sync.state.stash_rules.length === 0) tryAgain();
+    });
+
+    const res = await send({
+      version: 1,
+      op: "stash",
+      urls: [
+        "https://github.com/foo",
+        "https://github.com/bar",
+        "https://github.com/login",
+      ],
+    });
+    expect(res.ok).to.be.true;
+    expect((res as any).result).to.deep.equal({
+      folderId: bookmarks.names.id,
+      count: 2,
+    });
+    expect(
+      model.bookmarks
+        .childrenOf(model.bookmarks.folder(bookmarks.names.id)!)
+        .map(c => "url" in c && c.url),
+    ).to.include.members(["https://github.com/foo", "https://github.com/bar"]);
+    expect(model.journal.state.undoable.length).to.equal(1);
+  });
+
+  it("refuses to stash nothing", async () => {
+    expect((await send({version: 1, op: "stash", urls: ["about:newtab"]})).ok)
+      .to.be.false;
+    expect((await send({version: 1, op: "stash", urls: "nope"})).ok).to.be
+      .false;
+  });
+
+  it("restores a folder", async () => {
+    const res = await send({
+      version: 1,
+      op: "restore",
+      folderId: bookmarks.unnamed.id,
+    });
+    expect(res.ok).to.be.true;
+    expect((res as any).result).to.deep.equal({count: 1});
+    expect(model.tabs.tabsWithURL(`${B}#undyne`).size).to.equal(1);
+  });
+
+  it("refuses to restore things which aren't groups in the stash", async () => {
+    for (const folderId of [
+      bookmarks.stash_root.id,
+      bookmarks.nate.id,
+      "nonexistent",
+    ]) {
+      const res = await send({version: 1, op: "restore", folderId});
+      expect(res.ok, folderId).to.be.false;
+    }
+  });
+});
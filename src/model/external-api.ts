@@ -0,0 +1,233 @@
+// A message-based API which allows other extensions (that the user has chosen
+// to trust) to stash tabs and query the stash.  Messages arrive thru
+// browser.runtime.onMessageExternal in the background page, which passes them
+// to handleExternalMessage().
+//
+// Every request must name the API version it was written against, so we can
+// change things in the future without breaking existing callers:
+//
+//   {version: 1, op: "stash", urls: ["https://..."], folderTitle: "Reading"}
+//
+// Every response is either `{version, ok: true, result}` or `{version, ok:
+// false, error}`, where `error` is a human-readable string.
+
+import type {Model} from ".";
+import {filterMap} from "../util";
+import {logError, UserError} from "../util/oops";
+import {
+  friendlyFolderName,
+  isBookmark,
+  isFolder,
+  type Bookmark,
+  type Folder,
+} from "./bookmarks";
+
+/** The newest version of the API we understand.  Bump this (and keep handling
+ * the old versions) if the meaning of any existing operation changes. */
+export const EXTERNAL_API_VERSION = 1;
+
+/** The maximum number of results returned by a "search" request. */
+const MAX_SEARCH_RESULTS = 100;
+
+export type Request =
+  | {
+      version: number;
+      op: "stash";
+      urls: (string | {url: string; title?: string})[];
+      folderTitle?: string;
+    }
+  | {version: number; op: "listFolders"}
+  | {version: number; op: "search"; query: string}
+  | {version: number; op: "restore"; folderId: string};
+
+export type Response =
+  | {version: number; ok: true; result: unknown}
+  | {version: number; ok: false; error: string};
+
+export type FolderInfo = {
+  id: string;
+  title: string;
+  parentId: string | undefined;
+  bookmarkCount: number;
+};
+
+export type SearchResult =
+  | {type: "folder"; id: string; title: string; parentId: string | undefined}
+  | {
+      type: "bookmark";
+      id: string;
+      title: string;
+      url: string;
+      parentId: string | undefined;
+    };
+
+/** Handle a message from another extension, returning the response that
+ * should be sent back.  Messages from extensions which aren't in the user's
+ * list of allowed extensions are refused. */
+export async function handleExternalMessage(
+  model: Model,
+  message: unknown,
+  senderId: string | undefined,
+): Promise<Response> {
+  const version = EXTERNAL_API_VERSION;
+  try {
+    if (
+      !senderId ||
+      !model.options.local.state.external_api_allowed_ids.includes(senderId)
+    ) {
+      throw new UserError(
+        `Extension ${senderId} is not allowed to use Tab Stash's API; ` +
+          `add it in Tab Stash's options first.`,
+      );
+    }
+
+    const req = message as Request;
+    if (typeof req !== "object" || req === null) {
+      throw new UserError(`Requests must be objects`);
+    }
+    if (
+      typeof req.version !== "number" ||
+      req.version < 1 ||
+      req.version > EXTERNAL_API_VERSION
+    ) {
+      throw new UserError(
+        `Unsupported API version ${req.version} ` +
+          `(the newest supported version is ${EXTERNAL_API_VERSION})`,
+      );
+    }
+
+    return {version, ok: true, result: await dispatch(model, req)};
+  } catch (e) {
+    if (e instanceof UserError) {
+      return {version, ok: false, error: e.message};
+    }
+    // Details of internal errors stay in our own error log; they're none of
+    // the calling extension's business.
+    logError(e);
+    return {version, ok: false, error: "Internal error"};
+  }
+}
+
+async function dispatch(model: Model, req: Request): Promise<unknown> {
+  switch (req.op) {
+    case "stash":
+      return await stash(model, req.urls, req.folderTitle);
+    case "listFolders":
+      return listFolders(model);
+    case "search":
+      return search(model, req.query);
+    case "restore":
+      return await restore(model, req.folderId);
+    default:
+      throw new UserError(`Unknown operation: ${(<any>req).op}`);
+  }
+}
+
+/** Stash the URLs in a new group with the given title, or (if no title is
+ * given) wherever the user's stash rules say they go, just as if the user had
+ * stashed them.  Returns the ID of the group. */
+async function stash(
+  model: Model,
+  urls: unknown,
+  folderTitle: unknown,
+): Promise<{folderId: string; count: number}> {
+  if (!(urls instanceof Array)) throw new UserError(`"urls" must be an array`);
+  if (folderTitle !== undefined && typeof folderTitle !== "string") {
+    throw new UserError(`"folderTitle" must be a string`);
+  }
+
+  const items = filterMap(urls, u => {
+    const item = typeof u === "string" ? {url: u} : u;
+    if (typeof item?.url !== "string" || !model.isURLStashable(item.url)) {
+      return undefined;
+    }
+    const title = typeof item.title === "string" ? item.title : item.url;
+    return {url: item.url as string, title};
+  });
+  if (items.length === 0) throw new UserError(`No stashable URLs were given`);
+
+  const folder = folderTitle
+    ? await model.putItemsInNewFolder({items, title: folderTitle})
+    : await model.stashItems(items);
+  return {folderId: folder.id, count: items.length};
+}
+
+/** List every group in the stash (including child groups), in the order they
+ * appear in the stash. */
+function listFolders(model: Model): FolderInfo[] {
+  const root = model.bookmarks.stash_root.value;
+  if (!root) return [];
+
+  const folders: FolderInfo[] = [];
+  const visit = (folder: Folder) => {
+    for (const child of model.bookmarks.childrenOf(folder)) {
+      if (!isFolder(child)) continue;
+      folders.push({
+        id: child.id,
+        title: friendlyFolderName(child.title),
+        parentId: parentIdOf(model, child),
+        bookmarkCount: child.$stats.bookmarkCount,
+      });
+      visit(child);
+    }
+  };
+  visit(root);
+  return folders;
+}
+
+/** Search the stash for groups and bookmarks matching the query. */
+function search(model: Model, query: unknown): SearchResult[] {
+  if (typeof query !== "string")
+    throw new UserError(`"query" must be a string`);
+
+  const results: SearchResult[] = [];
+  for (const node of model.bookmarks.nodesInStashMatching(query)) {
+    if (results.length >= MAX_SEARCH_RESULTS) break;
+    results.push(
+      isBookmark(node)
+        ? {
+            type: "bookmark",
+            id: node.id,
+            title: node.title,
+            url: node.url,
+            parentId: parentIdOf(model, node),
+          }
+        : {
+            type: "folder",
+            id: node.id,
+            title: friendlyFolderName(node.title),
+            parentId: parentIdOf(model, node),
+          },
+    );
+  }
+  return results;
+}
+
+/** Open all the tabs in a group (without removing them from the stash). */
+async function restore(
+  model: Model,
+  folderId: unknown,
+): Promise<{count: number}> {
+  const folder =
+    typeof folderId === "string" ? model.bookmarks.folder(folderId) : undefined;
+  if (
+    !folder ||
+    folder === model.bookmarks.stash_root.value ||
+    !model.bookmarks.isNodeInStashRoot(folder)
+  ) {
+    throw new UserError(`No such group in the stash: ${folderId}`);
+  }
+
+  const bookmarks = model.bookmarks.childrenOf(folder).filter(isBookmark);
+  await model.restoreTabs(bookmarks, {});
+  return {count: bookmarks.length};
+}
+
+/** Returns the ID of the group containing `node`, or `undefined` if `node` is
+ * at the top level of the stash.  (Callers have no business knowing about the
+ * stash root itself.) */
+function parentIdOf(model: Model, node: Bookmark | Folder): string | undefined {
+  return node.parentId === model.bookmarks.stash_root.value?.id
+    ? undefined
+    : node.parentId;
+}
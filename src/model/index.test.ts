@@ -17,14 +17,22 @@ import {
   STASH_ROOT_NAME,
 } from "./fixtures.testlib";
 
-import {filterMap, later} from "../util";
+import {
+  filterMap,
+  later,
+  nextTick,
+  shortPoll,
+  TaskMonitor,
+  tryAgain,
+} from "../util";
+import {UserError} from "../util/oops";
 
 import * as M from ".";
 import type {KeyValueStore} from "../datastore/kvs";
 import {KVSCache} from "../datastore/kvs";
 import MemoryKVS from "../datastore/kvs/memory";
 import {_StoredObjectFactory} from "../datastore/stored-object";
-import {CUR_WINDOW_MD_ID} from "./bookmark-metadata";
+import {CUR_WINDOW_MD_ID, windowMetadataId} from "./bookmark-metadata";
 import {getDefaultFolderNameISODate} from "./bookmarks";
 import type {DeletedFolder} from "./deleted-items";
 import {LOCAL_DEF, SYNC_DEF} from "./options";
@@ -41,6 +49,7 @@ describe("model", () => {
   >;
   let favicons: KeyValueStore<string, M.Favicons.Favicon>;
   let deleted_items: KeyValueStore<string, M.DeletedItems.SourceValue>;
+  let activity_log: KeyValueStore<string, M.ActivityLog.SourceValue>;
 
   let model: M.Model;
 
@@ -62,6 +71,11 @@ describe("model", () => {
     deleted_items = new MemoryKVS("deleted_items");
     await make_deleted_items(deleted_items);
 
+    // Most tests don't care what gets logged, so we don't make them wait for
+    // activity-log events.
+    activity_log = new MemoryKVS("activity_log");
+    events.ignore(activity_log.onSet);
+
     const tab_model = await M.Tabs.Model.from_browser();
     const bm_model = await M.Bookmarks.Model.from_browser(STASH_ROOT_NAME);
     model = new M.Model({
@@ -78,6 +92,7 @@ describe("model", () => {
       containers: await M.Containers.Model.from_browser(),
       bookmarks: bm_model,
       deleted_items: new M.DeletedItems.Model(deleted_items),
+      activity_log: new M.ActivityLog.Model(activity_log),
       favicons: new M.Favicons.Model(new KVSCache(favicons)),
       bookmark_metadata: new M.BookmarkMetadata.Model(
         new KVSCache(bookmark_metadata),
@@ -178,6 +193,41 @@ describe("model", () => {
       );
     });
 
+    it("keeps tags for bookmarks that have moved", async () => {
+      await model.bookmark_metadata.setTags(bookmarks.nate.id, ["read later"]);
+      await browser.bookmarks.move(bookmarks.nate.id, {
+        parentId: bookmarks.unnamed.id,
+      });
+      await shortPoll(() => {
+        if (
+          model.bookmarks.node(bookmarks.nate.id)?.parentId !==
+          bookmarks.unnamed.id
+        ) {
+          tryAgain();
+        }
+      });
+
+      await model.gc();
+
+      expect(await bookmark_metadata.get([bookmarks.nate.id])).to.deep.equal([
+        {key: bookmarks.nate.id, value: {tags: ["read later"]}},
+      ]);
+    });
+
+    it("deletes tags for deleted bookmarks", async () => {
+      await model.bookmark_metadata.setTags(bookmarks.nate.id, ["read later"]);
+      await browser.bookmarks.remove(bookmarks.nate.id);
+      await shortPoll(() => {
+        if (model.bookmarks.node(bookmarks.nate.id)) tryAgain();
+      });
+
+      await model.gc();
+
+      expect(await bookmark_metadata.get([bookmarks.nate.id])).to.deep.equal(
+        [],
+      );
+    });
+
     it("keeps cached favicons that are in open tabs", async () => {
       await model.gc();
 
@@ -255,6 +305,213 @@ describe("model", () => {
         // harry is always excluded because he's hidden
       ]);
     });
+
+    describe("with a blocklist", () => {
+      beforeEach(async () => {
+        await model.options.sync.set({
+          stash_blocklist: ["mail.example.com", "*/login*", "/#(bob|doug)$/"],
+        });
+        await events.next(browser.storage.onChanged);
+        await events.next(model.options.sync.onChanged);
+      });
+
+      it("doesn't consider blocked URLs stashable", () => {
+        expect(model.isURLStashable("https://mail.example.com/inbox")).to.be
+          .false;
+        expect(model.isURLStashable("https://sso.example.com/login?next=/")).to
+          .be.false;
+        expect(model.isURLStashable("https://example.com/")).to.be.true;
+        expect(model.isURLStashable("https://example.com/about")).to.be.true;
+      });
+
+      it("notices when the blocklist changes", async () => {
+        expect(model.isURLBlocked("https://mail.example.com/inbox")).to.be.true;
+        await model.options.sync.set({stash_blocklist: []});
+        await events.next(browser.storage.onChanged);
+        await events.next(model.options.sync.onChanged);
+        expect(model.isURLBlocked("https://mail.example.com/inbox")).to.be
+          .false;
+      });
+
+      it("skips blocked tabs", () => {
+        expect(
+          model.stashableTabsInWindow(windows.real.id).map(t => t.id),
+        ).to.deep.equal([
+          tabs.real_estelle.id,
+          tabs.real_francis.id,
+          tabs.real_unstashed.id,
+        ]);
+      });
+
+      it("skips blocked tabs even if they are selected", async () => {
+        await browser.tabs.update(tabs.real_bob.id, {highlighted: true});
+        await browser.tabs.update(tabs.real_estelle.id, {highlighted: true});
+        await events.nextN(browser.tabs.onHighlighted, 2);
+
+        expect(
+          model.stashableTabsInWindow(windows.real.id).map(t => t.id),
+        ).to.deep.equal([tabs.real_blank.id, tabs.real_estelle.id]);
+      });
+    });
+  });
+
+  it("matches tabs and bookmarks using the URL normalization options", async () => {
+    expect(model.bookmarks.isURLStashed(`${B}#unstashed`)).to.be.false;
+    expect(model.tabs.tabsWithURL(`${B}#doug`)).not.to.include(
+      model.tabs.tab(tabs.real_bob.id),
+    );
+
+    await model.options.sync.set({url_ignore_fragment: true});
+    await events.next(browser.storage.onChanged);
+    await events.next(model.options.sync.onChanged);
+    await nextTick();
+
+    expect(model.bookmarks.isURLStashed(`${B}#unstashed`)).to.be.true;
+    expect(model.tabs.tabsWithURL(`${B}#doug`)).to.include(
+      model.tabs.tab(tabs.real_bob.id),
+    );
+  });
+
+  describe("routes single stashed tabs using stash rules", () => {
+    beforeEach(async () => {
+      await model.options.sync.set({
+        stash_rules: [
+          ["github.com/*", "Names"],
+          ["*.atlassian.net", "Tickets"],
+          ["example.com", ""],
+        ],
+      });
+      await events.next(browser.storage.onChanged);
+      await events.next(model.options.sync.onChanged);
+    });
+
+    it("finds the first matching rule", () => {
+      expect(model.stashRuleFor("https://github.com/foo/bar")).to.deep.equal([
+        "github.com/*",
+        "Names",
+      ]);
+      expect(model.stashRuleFor("https://acme.atlassian.net/")).to.deep.equal([
+        "*.atlassian.net",
+        "Tickets",
+      ]);
+      expect(model.stashRuleFor("https://gitlab.com/")).to.be.undefined;
+    });
+
+    it("ignores rules without a group name", () => {
+      expect(model.stashRuleFor("https://example.com/")).to.be.undefined;
+    });
+
+    it("stashes into an existing group", async () => {
+      const folder = await model.ensureFolderForURL("https://github.com/foo");
+      expect(folder.id).to.equal(bookmarks.names.id);
+    });
+
+    it("stashes into a new group", async () => {
+      const p = model.ensureFolderForURL("https://acme.atlassian.net/X-1");
+      await events.next(browser.bookmarks.onCreated);
+      const folder = await p;
+
+      expect(folder.title).to.equal("Tickets");
+      expect(folder.parentId).to.equal(bookmarks.stash_root.id);
+      expect(model.bookmarks.stash_root.value!.children[0]).to.equal(folder.id);
+    });
+
+    it("falls back to an unnamed group", async () => {
+      const p = model.ensureFolderForURL("https://gitlab.com/foo");
+      await events.next(browser.bookmarks.onCreated);
+      const folder = await p;
+
+      expect(getDefaultFolderNameISODate(folder.title)).not.to.be.null;
+      expect(folder.parentId).to.equal(bookmarks.stash_root.id);
+    });
+  });
+
+  describe("stashes closed windows", () => {
+    beforeEach(() => {
+      events.ignore(undefined);
+    });
+
+    function closed(
+      urls: string[],
+      opts?: {incognito?: boolean; hidden?: boolean},
+    ): M.Tabs.ClosedWindow {
+      const id = 9999 as M.Tabs.WindowID;
+      return {
+        id,
+        incognito: !!opts?.incognito,
+        closedAt: new Date(2024, 0, 2, 3, 4).getTime(),
+        tabs: urls.map((url, i) => ({
+          windowId: id,
+          id: (10000 + i) as TabID,
+          status: "complete",
+          title: `Tab ${i}`,
+          url,
+          favIconUrl: "",
+          cookieStoreId: undefined,
+          pinned: false,
+          hidden: !!opts?.hidden,
+          active: i === 0,
+          highlighted: i === 0,
+          discarded: false,
+          lastAccessed: undefined,
+          $selected: false,
+        })),
+      };
+    }
+
+    it("names the group after the dominant domain", async () => {
+      const folder = await model.stashClosedWindow(
+        closed([
+          "https://www.example.com/a",
+          "https://example.com/b",
+          "https://other.org/",
+        ]),
+      );
+
+      expect(folder!.title).to.equal("example.com");
+      expect(folder!.parentId).to.equal(bookmarks.stash_root.id);
+      expect(
+        model.bookmarks.childrenOf(folder!).map(c => "url" in c && c.url),
+      ).to.deep.equal([
+        "https://www.example.com/a",
+        "https://example.com/b",
+        "https://other.org/",
+      ]);
+    });
+
+    it("names the group after the time if no domain is dominant", async () => {
+      const folder = await model.stashClosedWindow(
+        closed(["https://example.com/", "https://other.org/"]),
+      );
+
+      expect(folder!.title).to.equal(
+        `Window Closed ${new Date(2024, 0, 2, 3, 4).toLocaleString()}`,
+      );
+      expect(model.bookmarks.childrenOf(folder!).length).to.equal(2);
+    });
+
+    it("skips private windows", async () => {
+      expect(
+        await model.stashClosedWindow(
+          closed(["https://example.com/"], {incognito: true}),
+        ),
+      ).to.be.undefined;
+    });
+
+    it("skips windows with only new-tab pages", async () => {
+      expect(await model.stashClosedWindow(closed(["about:newtab", B]))).to.be
+        .undefined;
+    });
+
+    it("skips tabs which are hidden or already stashed", async () => {
+      expect(
+        await model.stashClosedWindow(
+          closed(["https://example.com/"], {hidden: true}),
+        ),
+      ).to.be.undefined;
+      expect(await model.stashClosedWindow(closed([`${B}#doug`]))).to.be
+        .undefined;
+    });
   });
 
   describe("hides or closes stashed tabs", () => {
@@ -1679,6 +1936,1303 @@ describe("model", () => {
         new_paul.id,
       ]);
     });
+
+    it("restores tabs into a new window", async () => {
+      events.ignore(undefined);
+      const restored = await model.restoreTabsInNewWindow([
+        {url: `${B}#new-restored`},
+        {url: `${B}#harry`},
+      ]);
+
+      expect(restored.map(t => t.url)).to.deep.equal([
+        `${B}#new-restored`,
+        `${B}#harry`,
+      ]);
+      expect(restored[1]).to.equal(model.tabs.tab(tabs.real_harry.id));
+      expect(restored.map(t => t.hidden)).to.deep.equal([false, false]);
+      expect(restored.map(t => t.active)).to.deep.equal([true, false]);
+
+      const win_id = restored[0].windowId;
+      expect(win_id).not.to.equal(windows.real.id);
+      expect(model.tabs.window(win_id)!.tabs).to.deep.equal(
+        restored.map(t => t.id),
+      );
+    });
+
+    it("does not create a window when there is nothing to restore", async () => {
+      expect(await model.restoreTabsInNewWindow([])).to.deep.equal([]);
+    });
+  });
+
+  describe("remembers containers", () => {
+    let work: string;
+
+    beforeEach(async () => {
+      events.ignore(undefined);
+      work = (
+        await browser.contextualIdentities.create({
+          name: "Work",
+          color: "blue",
+          icon: "briefcase",
+        })
+      ).cookieStoreId;
+      await shortPoll(() => model.containers.container(work) || tryAgain());
+    });
+
+    const openTab = async (url: string, cookieStoreId?: string) => {
+      const t = await browser.tabs.create({
+        windowId: windows.real.id,
+        url,
+        cookieStoreId,
+      });
+      return await shortPoll(() => model.tabs.tab(t.id as TabID) || tryAgain());
+    };
+
+    it("restores tabs into the container they were stashed from", async () => {
+      const tab = await openTab(`${B}#work`, work);
+      const [bm] = await model.putItemsInFolder({
+        items: model.copying([tab]),
+        toFolderId: bookmarks.names.id,
+      });
+      await model.tabs.remove([tab.id]);
+
+      await model.bookmark_metadata.load([bm.id]);
+      expect(model.bookmark_metadata.get(bm.id).value).to.deep.equal({
+        container: work,
+      });
+
+      const [restored] = await model.restoreTabs([bm as M.Bookmarks.Bookmark], {
+        background: true,
+      });
+      expect(restored.url).to.equal(`${B}#work`);
+      expect(restored.cookieStoreId).to.equal(work);
+      expect(model.options.local.state.missing_container_tabs).to.equal(0);
+    });
+
+    it("doesn't reuse tabs from other containers", async () => {
+      const other = await openTab(`${B}#work`);
+
+      const [restored] = await model.restoreTabs(
+        [{url: `${B}#work`, cookieStoreId: work}],
+        {},
+      );
+      expect(restored.id).not.to.equal(other.id);
+      expect(restored.cookieStoreId).to.equal(work);
+    });
+
+    it("falls back to no container if the container is gone", async () => {
+      model.bookmark_metadata.setContainer(bookmarks.nate.id, work);
+      await browser.contextualIdentities.remove(work);
+      await shortPoll(() => !model.containers.container(work) || tryAgain());
+
+      const [restored] = await model.restoreTabs(
+        [model.bookmarks.node(bookmarks.nate.id) as M.Bookmarks.Bookmark],
+        {background: true},
+      );
+      expect(restored.url).to.equal(`${B}#nate`);
+      expect(restored.cookieStoreId).to.be.undefined;
+      // The warning is shared with other contexts through local options.
+      await shortPoll(
+        () =>
+          model.options.local.state.missing_container_tabs === 1 || tryAgain(),
+      );
+    });
+
+    it("doesn't remember the default container", async () => {
+      const tab = await openTab(`${B}#default`, "firefox-default");
+      const [bm] = await model.putItemsInFolder({
+        items: [tab],
+        toFolderId: bookmarks.names.id,
+      });
+
+      await model.bookmark_metadata.load([bm.id]);
+      expect(model.bookmark_metadata.get(bm.id).value).to.be.undefined;
+    });
+  });
+
+  describe("switches workspaces", () => {
+    const visibleURLs = (windowId: number) =>
+      model.tabs
+        .tabsIn(model.tabs.window(windowId as M.Tabs.WindowID)!)
+        .filter(t => !t.hidden && !t.pinned)
+        .map(t => t.url);
+
+    // The browser finishes hiding tabs before the model hears about it.
+    const waitUntilHidden = (url: string) =>
+      shortPoll(() => {
+        const t = Array.from(model.tabs.tabsWithURL(url))[0];
+        if (!t?.hidden) tryAgain();
+      });
+
+    beforeEach(() => {
+      events.ignore(undefined);
+    });
+
+    it("swaps a window's tabs with a group", async () => {
+      await model.switchWorkspace(windows.real.id, bookmarks.unnamed.id);
+      await waitUntilHidden(`${B}#unstashed`);
+
+      const md = model.bookmark_metadata.get(windowMetadataId(windows.real.id))
+        .value!;
+      expect(md.workspace).to.equal(bookmarks.unnamed.id);
+
+      const old_folder = model.bookmarks.folder(
+        md.previous_workspace as M.Bookmarks.NodeID,
+      )!;
+      expect(model.bookmarks.isNodeInStashRoot(old_folder)).to.be.true;
+      expect(
+        model.bookmarks.childrenOf(old_folder).map(c => "url" in c && c.url),
+      ).to.deep.equal([
+        `${B}#bob`,
+        `${B}#doug`,
+        `${B}#estelle`,
+        `${B}#francis`,
+        `${B}#unstashed`,
+      ]);
+
+      expect(visibleURLs(windows.real.id)).to.deep.equal([B, `${B}#undyne`]);
+      expect(model.tabs.activeTab(windows.real.id)!.url).to.equal(
+        `${B}#undyne`,
+      );
+      expect(model.tabs.tab(tabs.real_bob.id)!.hidden).to.be.true;
+
+      // The group keeps its bookmarks, so the switch can be reversed later.
+      expect(
+        model.bookmarks.folder(bookmarks.unnamed.id)!.children,
+      ).to.have.length(1);
+    });
+
+    it("undoes a switch completely if nothing else was done since", async () => {
+      const folders = Array.from(model.bookmarks.stash_root.value!.children);
+      await model.switchWorkspace(windows.real.id, bookmarks.unnamed.id);
+      await waitUntilHidden(`${B}#unstashed`);
+
+      await model.undoSwitchWorkspace(windows.real.id);
+
+      expect(
+        model.bookmark_metadata.get(windowMetadataId(windows.real.id)).value
+          ?.workspace,
+      ).to.be.undefined;
+      expect(model.bookmarks.stash_root.value!.children).to.deep.equal(folders);
+      expect(visibleURLs(windows.real.id)).to.deep.equal([
+        B,
+        `${B}#bob`,
+        `${B}#doug`,
+        `${B}#estelle`,
+        `${B}#francis`,
+        `${B}#unstashed`,
+      ]);
+      expect(model.tabs.tab(tabs.real_bob.id)!.hidden).to.be.false;
+    });
+
+    it("undoes a switch by switching back if other things were done since", async () => {
+      await model.switchWorkspace(windows.real.id, bookmarks.unnamed.id);
+      await waitUntilHidden(`${B}#unstashed`);
+      const old_folder_id = model.bookmark_metadata.get(
+        windowMetadataId(windows.real.id),
+      ).value!.previous_workspace;
+      await model.bookmarks.rename(
+        model.bookmarks.folder(bookmarks.names.id)!,
+        "Friends",
+      );
+
+      await model.undoSwitchWorkspace(windows.real.id);
+      await waitUntilHidden(`${B}#undyne`);
+
+      expect(
+        model.bookmark_metadata.get(windowMetadataId(windows.real.id)).value,
+      ).to.deep.equal({
+        workspace: old_folder_id,
+        previous_workspace: bookmarks.unnamed.id,
+      });
+      expect(visibleURLs(windows.real.id)).to.deep.equal([
+        B,
+        `${B}#bob`,
+        `${B}#doug`,
+        `${B}#estelle`,
+        `${B}#francis`,
+        `${B}#unstashed`,
+      ]);
+      expect(model.tabs.tab(tabs.real_bob.id)!.hidden).to.be.false;
+      expect(
+        model.bookmarks
+          .childrenOf(model.bookmarks.folder(bookmarks.unnamed.id)!)
+          .map(c => "url" in c && c.url),
+      ).to.deep.equal([`${B}#undyne`]);
+    });
+
+    it("refuses to use folders outside the stash as workspaces", async () => {
+      await model.switchWorkspace(windows.real.id, bookmarks.outside.id).then(
+        // istanbul ignore next
+        () => expect.fail("switchWorkspace did not throw"),
+        e => expect(e).to.be.instanceOf(UserError),
+      );
+    });
+
+    it("refuses to undo when there is nothing to undo", async () => {
+      await model.undoSwitchWorkspace(windows.real.id).then(
+        // istanbul ignore next
+        () => expect.fail("undoSwitchWorkspace did not throw"),
+        e => expect(e).to.be.instanceOf(UserError),
+      );
+    });
+  });
+
+  describe("resolves duplicates", () => {
+    beforeEach(() => {
+      events.ignore(undefined);
+    });
+
+    it("keeps only the chosen copy", async () => {
+      const deleted = await model.keepOnlyBookmark(
+        model.bookmarks.bookmark(bookmarks.two_two.id)!,
+      );
+
+      expect(deleted.map(bm => bm.id)).to.deep.equal([bookmarks.two.id]);
+      expect(model.bookmarks.node(bookmarks.two.id)).to.be.undefined;
+      expect(model.bookmarks.node(bookmarks.two_two.id)).not.to.be.undefined;
+      expect(model.bookmarks.duplicatesInStash()).to.deep.equal([]);
+
+      await model.deleted_items.loadMore();
+      expect(model.deleted_items.state.entries[0].item).to.deep.include({
+        title: "Two",
+        url: `${B}#2`,
+      });
+    });
+
+    it("leaves copies outside the stash alone", async () => {
+      await model.keepOnlyBookmark(
+        model.bookmarks.bookmark(bookmarks.doug_2.id)!,
+      );
+      expect(model.bookmarks.node(bookmarks.doug_1.id)).not.to.be.undefined;
+    });
+  });
+
+  describe("merges folders", () => {
+    beforeEach(() => {
+      events.ignore(undefined);
+    });
+
+    it("moves children into the first folder and deletes the rest", async () => {
+      await model.bookmarks.create({
+        parentId: bookmarks.big_stash.id,
+        title: "Nate Again",
+        url: `${B}#nate`,
+      });
+      model.bookmark_metadata.setCollapsed(bookmarks.names.id, true);
+      await model.bookmark_metadata.setNote(bookmarks.names.id, "People");
+      await model.bookmark_metadata.setNote(bookmarks.big_stash.id, "Numbers");
+
+      await model.mergeFolders([
+        model.bookmarks.folder(bookmarks.names.id)!,
+        model.bookmarks.folder(bookmarks.big_stash.id)!,
+      ]);
+
+      expect(model.bookmarks.node(bookmarks.big_stash.id)).to.be.undefined;
+      expect(
+        model.bookmarks.folder(bookmarks.names.id)!.children,
+      ).to.deep.equal([
+        bookmarks.doug_2.id,
+        bookmarks.helen.id,
+        bookmarks.patricia.id,
+        bookmarks.nate.id,
+        bookmarks.one.id,
+        bookmarks.two.id,
+        bookmarks.three.id,
+        bookmarks.four.id,
+        bookmarks.five.id,
+        bookmarks.six.id,
+        bookmarks.seven.id,
+        bookmarks.eight.id,
+      ]);
+      expect(
+        model.bookmark_metadata.get(bookmarks.names.id).value,
+      ).to.deep.equal({collapsed: true, note: "People\n\nNumbers"});
+
+      await model.deleted_items.loadMore();
+      const deleted = model.deleted_items.state.entries[0].item;
+      expect(deleted.title).to.equal("Big Stash");
+      expect(
+        "children" in deleted && deleted.children.map(c => c.title),
+      ).to.deep.equal(["Nate Again"]);
+    });
+
+    it("undoes the whole merge at once", async () => {
+      await model.bookmarks.create({
+        parentId: bookmarks.big_stash.id,
+        title: "Nate Again",
+        url: `${B}#nate`,
+      });
+      const stash_root = model.bookmarks.stash_root.value!;
+      const root_before = Array.from(stash_root.children);
+      const names_before = Array.from(
+        model.bookmarks.folder(bookmarks.names.id)!.children,
+      );
+      await model.bookmark_metadata.setNote(bookmarks.big_stash.id, "Numbers");
+
+      await model.mergeFolders([
+        model.bookmarks.folder(bookmarks.names.id)!,
+        model.bookmarks.folder(bookmarks.big_stash.id)!,
+      ]);
+      expect(
+        model.journal.state.undoable.map(e => e.description),
+      ).to.deep.equal([`merged 1 group into "Names"`]);
+
+      await model.journal.undo();
+      expect(
+        model.bookmarks.folder(bookmarks.names.id)!.children,
+      ).to.deep.equal(names_before);
+      expect(model.bookmark_metadata.get(bookmarks.names.id).value?.note).to.be
+        .undefined;
+
+      const big_stash = model.bookmarks.folder(
+        model.journal.resolve(bookmarks.big_stash.id),
+      )!;
+      expect(stash_root.children.indexOf(big_stash.id)).to.equal(
+        root_before.indexOf(bookmarks.big_stash.id),
+      );
+      expect(
+        model.bookmarks.childrenOf(big_stash).map(c => c.title),
+      ).to.deep.equal([
+        "One",
+        "Two",
+        "Three",
+        "Four",
+        "Five",
+        "Six",
+        "Seven",
+        "Eight",
+        "Nate Again",
+      ]);
+      expect(model.bookmark_metadata.get(big_stash.id).value).to.deep.equal({
+        note: "Numbers",
+      });
+
+      await model.deleted_items.loadMore();
+      expect(
+        model.deleted_items.state.entries.map(d => d.item.title),
+      ).not.to.include("Big Stash");
+    });
+
+    it("refuses to merge a folder into its own child", async () => {
+      await model
+        .mergeFolders([
+          model.bookmarks.folder(bookmarks.nested_child.id)!,
+          model.bookmarks.folder(bookmarks.nested.id)!,
+        ])
+        .then(
+          // istanbul ignore next
+          () => expect.fail("mergeFolders() should have thrown"),
+          e => expect(e).to.be.instanceOf(UserError),
+        );
+      expect(model.bookmarks.folder(bookmarks.nested.id)).not.to.be.undefined;
+    });
+  });
+
+  describe("sorts folders", () => {
+    beforeEach(() => {
+      events.ignore(undefined);
+    });
+
+    const titles = (folderId: string) =>
+      model.bookmarks
+        .childrenOf(model.bookmarks.folder(folderId)!)
+        .map(n => n.title);
+
+    it("by title", async () => {
+      await model.sortFolder({folderId: bookmarks.big_stash.id, by: "title"});
+      expect(titles(bookmarks.big_stash.id)).to.deep.equal([
+        "Eight",
+        "Five",
+        "Four",
+        "One",
+        "Seven",
+        "Six",
+        "Three",
+        "Two",
+      ]);
+    });
+
+    it("by domain, leaving other items at the end", async () => {
+      const folder = await model.bookmarks.create({
+        parentId: bookmarks.stash_root.id,
+        title: "Domains",
+      });
+      for (const [title, url] of [
+        ["Sub-Group", undefined],
+        ["Beta", "https://www.b.example/"],
+        ["Alpha", "https://a.example/page"],
+        ["Gamma", "https://b.example/other"],
+      ]) {
+        await model.bookmarks.create({parentId: folder.id, title, url});
+      }
+
+      await model.sortFolder({folderId: folder.id, by: "domain"});
+      expect(titles(folder.id)).to.deep.equal([
+        "Alpha",
+        "Beta",
+        "Gamma",
+        "Sub-Group",
+      ]);
+    });
+
+    it("by when they were last visited", async () => {
+      const folder = await model.bookmarks.create({
+        parentId: bookmarks.stash_root.id,
+        title: "Visited",
+      });
+      for (const [title, url] of [
+        ["Bob", `${B}#bob`],
+        ["Never", `${B}#never-opened`],
+        ["Doug", `${B}#doug`],
+        ["Estelle", `${B}#estelle`],
+      ]) {
+        await model.bookmarks.create({parentId: folder.id, title, url});
+      }
+
+      for (const tab of [tabs.real_doug, tabs.real_bob, tabs.real_estelle]) {
+        // Make sure each tab is visited at a different time.
+        await new Promise(resolve => setTimeout(resolve, 2));
+        await browser.tabs.update(tab.id, {active: true});
+        await shortPoll(() => model.tabs.tab(tab.id)!.active || tryAgain());
+      }
+
+      await model.sortFolder({folderId: folder.id, by: "last_visited"});
+      expect(titles(folder.id)).to.deep.equal([
+        "Estelle",
+        "Bob",
+        "Doug",
+        "Never",
+      ]);
+    });
+
+    it("and reports progress while sorting", async () => {
+      const task = TaskMonitor.run(task =>
+        model.sortFolder({folderId: bookmarks.big_stash.id, by: "title", task}),
+      );
+      await task;
+      expect(task.progress.max).to.equal(8);
+      expect(task.progress.value).to.equal(8);
+    });
+
+    it("and keeps them sorted as items are added", async () => {
+      await model.bookmark_metadata.setKeepSorted(
+        bookmarks.big_stash.id,
+        "title",
+      );
+
+      await model.putItemsInFolder({
+        items: [{title: "Apple", url: `${B}#apple`}],
+        toFolderId: bookmarks.big_stash.id,
+      });
+      expect(titles(bookmarks.big_stash.id)).to.deep.equal([
+        "Apple",
+        "Eight",
+        "Five",
+        "Four",
+        "One",
+        "Seven",
+        "Six",
+        "Three",
+        "Two",
+      ]);
+    });
+  });
+
+  describe("splits folders", () => {
+    let folder: M.Bookmarks.Folder;
+
+    beforeEach(async () => {
+      events.ignore(undefined);
+
+      folder = (await model.bookmarks.create({
+        parentId: bookmarks.stash_root.id,
+        title: "Grab Bag",
+      })) as M.Bookmarks.Folder;
+      for (const [title, url] of [
+        ["Beta", "https://www.b.example/"],
+        ["Alpha", "https://a.example/page"],
+        ["Gamma", "https://b.example/other"],
+        ["Blank", "about:blank"],
+      ]) {
+        await model.bookmarks.create({parentId: folder.id, title, url});
+      }
+    });
+
+    it("plans a split by domain", () => {
+      const plan = model.planFolderSplit(folder, "domain");
+      expect(
+        plan.map(g => [g.title, g.bookmarks.map(b => b.title)]),
+      ).to.deep.equal([
+        ["a.example", ["Alpha"]],
+        ["b.example", ["Beta", "Gamma"]],
+        ["Other Sites", ["Blank"]],
+      ]);
+    });
+
+    it("plans a split by day, newest first", () => {
+      const [alpha, beta] = model.bookmarks
+        .childrenOf(folder)
+        .filter(M.Bookmarks.isBookmark);
+      beta.dateAdded = new Date(2024, 0, 2, 12).getTime();
+      alpha.dateAdded = new Date(2024, 0, 3, 12).getTime();
+
+      // The other bookmarks were added today, so they come first.
+      const plan = model.planFolderSplit(folder, "day");
+      expect(plan.slice(1).map(g => g.title)).to.deep.equal([
+        "2024-01-03",
+        "2024-01-02",
+      ]);
+      expect(plan[1].bookmarks).to.deep.equal([alpha]);
+      expect(plan[2].bookmarks).to.deep.equal([beta]);
+    });
+
+    it("moves bookmarks into child folders", async () => {
+      const task = TaskMonitor.run(task =>
+        model.splitFolder({
+          folderId: folder.id,
+          groups: model.planFolderSplit(folder, "domain"),
+          task,
+        }),
+      );
+      const children = await task;
+      expect(task.progress.value).to.equal(task.progress.max);
+
+      expect(model.bookmarks.folder(folder.id)!.children).to.deep.equal(
+        children.map(c => c.id),
+      );
+      expect(
+        children.map(c => [
+          c.title,
+          model.bookmarks.childrenOf(c).map(n => n.title),
+        ]),
+      ).to.deep.equal([
+        ["a.example", ["Alpha"]],
+        ["b.example", ["Beta", "Gamma"]],
+        ["Other Sites", ["Blank"]],
+      ]);
+    });
+  });
+
+  describe("stash profiles", () => {
+    beforeEach(async () => {
+      await model.options.sync.set({stash_profiles: ["Work", "", "Work"]});
+      await events.next(browser.storage.onChanged);
+      await events.next(model.options.sync.onChanged);
+      events.ignore(undefined);
+    });
+
+    it("lists each profile once", () => {
+      expect(model.profiles()).to.deep.equal(["", "Work"]);
+    });
+
+    it("switches profiles when the option changes", async () => {
+      await model.options.local.set({current_stash_profile: "Home"});
+      await shortPoll(() => {
+        if (model.bookmarks.profile.value !== "Home") tryAgain();
+      });
+
+      expect(model.bookmarks.stash_root.value).to.be.undefined;
+      expect(model.profiles()).to.deep.equal(["", "Work", "Home"]);
+    });
+
+    it("keeps a separate unnamed folder for each profile", async () => {
+      const default_folder = await model.ensureRecentUnnamedFolder();
+
+      model.bookmarks.setProfile("Work");
+      expect(model.mostRecentUnnamedFolder()).to.be.undefined;
+      const work_folder = await model.ensureRecentUnnamedFolder();
+      expect(work_folder).not.to.equal(default_folder);
+      expect(work_folder.parentId).to.equal(
+        model.bookmarks.stash_root.value!.id,
+      );
+
+      model.bookmarks.setProfile("");
+      expect(model.mostRecentUnnamedFolder()).to.equal(default_folder);
+    });
+  });
+
+  describe("archives folders", () => {
+    beforeEach(() => {
+      events.ignore(undefined);
+    });
+
+    it("moves folders into the archive and back again", async () => {
+      expect(model.bookmarks.archive_root.value).to.be.undefined;
+
+      await model.archiveFolder(bookmarks.big_stash.id);
+
+      const archive_root = model.bookmarks.archive_root.value!;
+      expect(archive_root.title).to.equal(model.bookmarks.archive_root_name);
+      expect(archive_root.parentId).to.equal(
+        model.bookmarks.stash_root.value!.parentId,
+      );
+      expect(archive_root.children).to.deep.equal([bookmarks.big_stash.id]);
+      expect(model.bookmarks.stash_root.value!.children).not.to.include(
+        bookmarks.big_stash.id,
+      );
+      expect(
+        model.bookmarks.isNodeInArchive(
+          model.bookmarks.node(bookmarks.one.id)!,
+        ),
+      ).to.be.true;
+      expect(model.bookmarks.urlsInStash()).not.to.include(`${B}#1`);
+      expect(model.bookmarks.isURLStashed(`${B}#1`)).to.be.false;
+
+      await model.unarchiveFolder(bookmarks.big_stash.id);
+
+      expect(archive_root.children).to.deep.equal([]);
+      expect(model.bookmarks.stash_root.value!.children[0]).to.equal(
+        bookmarks.big_stash.id,
+      );
+      expect(model.bookmarks.isURLStashed(`${B}#1`)).to.be.true;
+    });
+
+    it("reuses the existing archive root", async () => {
+      await model.archiveFolder(bookmarks.big_stash.id);
+      const archive_root = model.bookmarks.archive_root.value!;
+
+      await model.archiveFolder(bookmarks.names.id);
+      expect(model.bookmarks.archive_root.value).to.equal(archive_root);
+      expect(archive_root.children).to.deep.equal([
+        bookmarks.names.id,
+        bookmarks.big_stash.id,
+      ]);
+    });
+
+    it("refuses to unarchive folders which aren't in the archive", async () => {
+      await model.unarchiveFolder(bookmarks.nested_child.id).then(
+        // istanbul ignore next
+        () => expect.fail("unarchiveFolder() did not throw"),
+        e => expect(e).to.be.instanceOf(UserError),
+      );
+      expect(
+        model.bookmarks.node(bookmarks.nested_child.id)!.parentId,
+      ).to.equal(bookmarks.nested.id);
+    });
+
+    it("refuses to archive the stash root", async () => {
+      await model.archiveFolder(bookmarks.stash_root.id).then(
+        // istanbul ignore next
+        () => expect.fail("archiveFolder() did not throw"),
+        e => expect(e).to.be.instanceOf(UserError),
+      );
+      expect(model.bookmarks.archive_root.value).to.be.undefined;
+    });
+  });
+
+  describe("finds stale items", () => {
+    beforeEach(() => {
+      events.ignore(undefined);
+    });
+
+    const ids = (items: M.StaleItem[]) => items.map(i => i.node.id);
+
+    it("reports whole folders which haven't been opened", async () => {
+      const later = Date.now() + 60 * 1000;
+      expect(ids(await model.staleItems(later))).to.have.members([
+        bookmarks.names.id,
+        bookmarks.unnamed.id,
+        bookmarks.big_stash.id,
+        bookmarks.nested.id,
+      ]);
+      expect(await model.staleItems(0)).to.deep.equal([]);
+    });
+
+    it("reports only the stale parts of folders which were opened", async () => {
+      const later = Date.now() + 60 * 1000;
+      model.markOpened([model.bookmarks.node(bookmarks.nested_1.id)!], later);
+
+      expect(ids(await model.staleItems(later))).to.have.members([
+        bookmarks.names.id,
+        bookmarks.unnamed.id,
+        bookmarks.big_stash.id,
+        bookmarks.nested_child.id,
+        bookmarks.nested_2.id,
+        bookmarks.nested_3.id,
+      ]);
+    });
+
+    it("remembers when bookmarks were restored", async () => {
+      const before = Date.now();
+      await model.restoreTabs([model.bookmarks.bookmark(bookmarks.nate.id)!], {
+        background: true,
+      });
+
+      const md = model.bookmark_metadata.get(bookmarks.nate.id).value;
+      expect(md?.last_opened).to.be.at.least(before);
+    });
+
+    it("remembers when matching tabs were looked at", async () => {
+      const at = Date.now() + 60 * 1000;
+      model.markURLOpened(`${B}#2`, at);
+      await model.bookmark_metadata.load([bookmarks.two.id]);
+
+      expect(
+        model.bookmark_metadata.get(bookmarks.two.id).value?.last_opened,
+      ).to.equal(at);
+      expect(
+        model.bookmark_metadata.get(bookmarks.two_two.id).value?.last_opened,
+      ).to.equal(at);
+    });
+
+    it("treats tabs for the same page as looking at the bookmark", async () => {
+      await model.options.sync.set({url_ignore_fragment: true});
+      await shortPoll(
+        () =>
+          model.options.urlNormalization.value.ignore_fragment || tryAgain(),
+      );
+      await nextTick();
+
+      const at = Date.now() + 60 * 1000;
+      model.markURLOpened(`${B}#somewhere-else`, at);
+      await model.bookmark_metadata.load([bookmarks.nate.id]);
+
+      expect(
+        model.bookmark_metadata.get(bookmarks.nate.id).value?.last_opened,
+      ).to.equal(at);
+    });
+
+    it("archives stale bookmarks and folders", async () => {
+      await model.archiveItems([
+        bookmarks.names.id,
+        bookmarks.one.id,
+        bookmarks.two.id,
+      ]);
+
+      const archive_root = model.bookmarks.archive_root.value!;
+      expect(archive_root.children.length).to.equal(2);
+      expect(archive_root.children[1]).to.equal(bookmarks.names.id);
+
+      const folder = model.bookmarks.folder(archive_root.children[0])!;
+      expect(folder.children).to.deep.equal([
+        bookmarks.one.id,
+        bookmarks.two.id,
+      ]);
+      expect(model.bookmarks.isURLStashed(`${B}#1`)).to.be.false;
+    });
+  });
+
+  describe("acts on the results of link checks", () => {
+    beforeEach(() => {
+      events.ignore(undefined);
+    });
+
+    it("updates links which were redirected", async () => {
+      model.bookmark_metadata.setLinkCheck(bookmarks.one.id, {
+        status: "redirected",
+        url: `${B}#1`,
+        checked_at: 1,
+        final_url: `${B}#moved`,
+      });
+      model.bookmark_metadata.setLinkCheck(bookmarks.two.id, {
+        status: "error",
+        url: `${B}#2`,
+        checked_at: 1,
+      });
+
+      const links = await model.redirectedLinks(bookmarks.big_stash.id);
+      expect(links.map(l => [l.bookmark.id, l.final_url])).to.deep.equal([
+        [bookmarks.one.id, `${B}#moved`],
+      ]);
+
+      const updated = await model.updateRedirectedLinks(links);
+
+      expect(updated.map(bm => bm.id)).to.deep.equal([bookmarks.one.id]);
+      expect(model.bookmarks.bookmark(bookmarks.one.id)!.url).to.equal(
+        `${B}#moved`,
+      );
+      expect(model.bookmarks.bookmark(bookmarks.two.id)!.url).to.equal(
+        `${B}#2`,
+      );
+      expect(
+        model.bookmark_metadata.get(bookmarks.one.id).value?.link_check,
+      ).to.deep.equal({status: "alive", url: `${B}#moved`, checked_at: 1});
+    });
+
+    it("undoes updating redirected links in one step", async () => {
+      for (const [bm, url] of [
+        [bookmarks.one, `${B}#1`],
+        [bookmarks.two, `${B}#2`],
+      ] as const) {
+        model.bookmark_metadata.setLinkCheck(bm.id, {
+          status: "redirected",
+          url,
+          checked_at: 1,
+          final_url: `${url}-moved`,
+        });
+      }
+
+      await model.updateRedirectedLinks(
+        await model.redirectedLinks(bookmarks.big_stash.id),
+      );
+      expect(model.journal.state.recent!.entry.description).to.equal(
+        "updated the URLs of 2 tabs",
+      );
+
+      await model.journal.undo();
+      expect(model.bookmarks.bookmark(bookmarks.one.id)!.url).to.equal(
+        `${B}#1`,
+      );
+      expect(model.bookmarks.bookmark(bookmarks.two.id)!.url).to.equal(
+        `${B}#2`,
+      );
+    });
+
+    it("ignores link checks for URLs the bookmark no longer has", async () => {
+      model.bookmark_metadata.setLinkCheck(bookmarks.one.id, {
+        status: "error",
+        url: `${B}#old`,
+        checked_at: 1,
+      });
+      model.bookmark_metadata.setLinkCheck(bookmarks.two.id, {
+        status: "redirected",
+        url: `${B}#old`,
+        checked_at: 1,
+        final_url: `${B}#moved`,
+      });
+
+      await model.bookmark_metadata.load([bookmarks.one.id]);
+      expect(model.currentLinkCheck(model.bookmarks.bookmark(bookmarks.one.id)))
+        .to.be.undefined;
+      expect(await model.deadLinks(bookmarks.big_stash.id)).to.deep.equal([]);
+      expect(await model.redirectedLinks(bookmarks.big_stash.id)).to.deep.equal(
+        [],
+      );
+    });
+
+    it("deletes dead links", async () => {
+      model.bookmark_metadata.setLinkCheck(bookmarks.one.id, {
+        status: "error",
+        url: `${B}#1`,
+        checked_at: 1,
+      });
+      model.bookmark_metadata.setLinkCheck(bookmarks.nested_1.id, {
+        status: "error",
+        url: `${B}#nested_1`,
+        checked_at: 1,
+      });
+      model.bookmark_metadata.setLinkCheck(bookmarks.two.id, {
+        status: "alive",
+        url: `${B}#2`,
+        checked_at: 1,
+      });
+      model.bookmark_metadata.setLinkCheck(bookmarks.three.id, {
+        status: "timeout",
+        url: `${B}#3`,
+        checked_at: 1,
+      });
+
+      const dead = await model.deadLinks(bookmarks.big_stash.id);
+      expect(dead.map(bm => bm.id)).to.deep.equal([bookmarks.one.id]);
+
+      const deleted = await model.deleteDeadLinks(dead);
+      expect(deleted.map(bm => bm.id)).to.deep.equal([bookmarks.one.id]);
+      expect(model.bookmarks.node(bookmarks.one.id)).to.be.undefined;
+      expect(model.bookmarks.node(bookmarks.two.id)).not.to.be.undefined;
+      expect(model.bookmarks.node(bookmarks.three.id)).not.to.be.undefined;
+      expect(model.bookmarks.node(bookmarks.nested_1.id)).not.to.be.undefined;
+
+      await model.deleteDeadLinks(await model.deadLinks());
+      expect(model.bookmarks.node(bookmarks.nested_1.id)).to.be.undefined;
+    });
+  });
+
+  describe("logs what the user did", () => {
+    beforeEach(() => {
+      events.ignore(undefined);
+    });
+
+    /** Returns what was logged while `fn()` was running, oldest first. */
+    async function logged(fn: () => Promise<unknown>): Promise<string[]> {
+      const before = new Set<string>();
+      for await (const e of activity_log.list()) before.add(e.key);
+      await fn();
+
+      const res = [];
+      for await (const e of activity_log.list()) {
+        if (!before.has(e.key)) {
+          res.push(`${e.value.type}: ${e.value.description}`);
+        }
+      }
+      return res;
+    }
+
+    it("stashing tabs", async () => {
+      expect(
+        await logged(() =>
+          model.putItemsInFolder({
+            items: [model.tabs.tab(tabs.real_bob.id)!],
+            toFolderId: bookmarks.names.id,
+          }),
+        ),
+      ).to.deep.equal([`stash: stashed 1 tab into "Names"`]);
+    });
+
+    it("copying bookmarks", async () => {
+      expect(
+        await logged(() =>
+          model.putItemsInFolder({
+            items: model.copying([model.bookmarks.node(bookmarks.nate.id)!]),
+            toFolderId: bookmarks.big_stash.id,
+          }),
+        ),
+      ).to.deep.equal([`stash: copied 1 tab into "Big Stash"`]);
+    });
+
+    it("restoring tabs", async () => {
+      expect(
+        await logged(() =>
+          model.restoreTabs(
+            [model.bookmarks.node(bookmarks.nate.id) as M.Bookmarks.Bookmark],
+            {background: true},
+          ),
+        ),
+      ).to.deep.equal([`restore: restored 1 tab from "Names"`]);
+    });
+
+    it("renaming groups", async () => {
+      expect(
+        await logged(() =>
+          model.bookmarks.rename(
+            model.bookmarks.folder(bookmarks.names.id)!,
+            "Friends",
+          ),
+        ),
+      ).to.deep.equal([`rename: renamed "Names" to "Friends"`]);
+    });
+
+    it("deleting tabs", async () => {
+      expect(
+        await logged(() => model.deleteItems([bookmarks.nate.id])),
+      ).to.deep.equal([`delete: deleted 1 tab from "Names"`]);
+    });
+
+    it("archiving tabs, in a single entry", async () => {
+      const entries = await logged(() =>
+        model.archiveItems([bookmarks.one.id, bookmarks.two.id]),
+      );
+      expect(entries).to.have.length(1);
+      expect(entries[0]).to.match(/^archive: archived 2 tabs into "[^"]+"$/);
+    });
+
+    it("archiving groups along with tabs", async () => {
+      const entries = await logged(() =>
+        model.archiveItems([bookmarks.names.id, bookmarks.one.id]),
+      );
+      expect(entries).to.have.length(2);
+      expect(entries).to.include(`archive: archived "Names"`);
+      expect(entries.find(e => e !== `archive: archived "Names"`)).to.match(
+        /^archive: archived 1 tab into "[^"]+"$/,
+      );
+    });
+
+    it("undoing and redoing", async () => {
+      await model.sortFolder({folderId: bookmarks.big_stash.id, by: "title"});
+      expect(
+        await logged(async () => {
+          await model.undo();
+          await model.redo();
+        }),
+        // Both may be logged in the same millisecond, so their order in the
+        // log isn't guaranteed.
+      ).to.have.members([
+        `undo: undid: sorted "Big Stash"`,
+        `undo: redid: sorted "Big Stash"`,
+      ]);
+    });
+
+    it("cleaning up expired deleted items", async () => {
+      const entries = await logged(() => model.gc());
+      expect(entries).to.have.length(1);
+      expect(entries[0]).to.match(
+        /^gc: permanently deleted [0-9]+ expired deleted item\(s\)$/,
+      );
+    });
+  });
+
+  describe("undoes and redoes operations", () => {
+    const big_stash = [
+      "one",
+      "two",
+      "three",
+      "four",
+      "five",
+      "six",
+      "seven",
+      "eight",
+    ] as const;
+
+    const childrenOf = (folder: keyof typeof bookmarks) =>
+      model.bookmarks.folder(bookmarks[folder].id)!.children;
+    const ids = (names: readonly (keyof typeof bookmarks)[]) =>
+      names.map(n => bookmarks[n].id);
+
+    beforeEach(() => {
+      events.ignore(undefined);
+    });
+
+    it("moves bookmarks back where they came from", async () => {
+      await model.putItemsInFolder({
+        items: [bookmarks.three, bookmarks.five].map(
+          b => model.bookmarks.node(b.id)!,
+        ),
+        toFolderId: bookmarks.big_stash.id,
+        toIndex: 0,
+      });
+      const moved = ids(["three", "five", "one", "two", "four", "six"]);
+      moved.push(...ids(["seven", "eight"]));
+      expect(childrenOf("big_stash")).to.deep.equal(moved);
+      expect(model.journal.state.recent!.entry.description).to.equal(
+        "moved 2 tabs",
+      );
+
+      await model.journal.undo();
+      expect(childrenOf("big_stash")).to.deep.equal(ids(big_stash));
+      expect(model.journal.state.recent).to.deep.include({undone: true});
+
+      await model.journal.redo();
+      expect(childrenOf("big_stash")).to.deep.equal(moved);
+    });
+
+    it("un-stashes and re-stashes tabs", async () => {
+      await model.putItemsInFolder({
+        items: [model.tabs.tab(tabs.real_estelle.id)!],
+        toFolderId: bookmarks.big_stash.id,
+        toIndex: 0,
+      });
+      expect(childrenOf("big_stash").slice(1)).to.deep.equal(ids(big_stash));
+      expect(
+        model.bookmarks.bookmark(childrenOf("big_stash")[0])!.url,
+      ).to.equal(tabs.real_estelle.url);
+      await shortPoll(() => {
+        if (!model.tabs.tab(tabs.real_estelle.id)!.hidden) tryAgain();
+      });
+
+      await model.journal.undo();
+      expect(childrenOf("big_stash")).to.deep.equal(ids(big_stash));
+      expect(model.tabs.tab(tabs.real_estelle.id)!.hidden).to.be.false;
+
+      await model.journal.redo();
+      expect(childrenOf("big_stash").slice(1)).to.deep.equal(ids(big_stash));
+      expect(
+        model.bookmarks.bookmark(childrenOf("big_stash")[0])!.url,
+      ).to.equal(tabs.real_estelle.url);
+      expect(model.tabs.tab(tabs.real_estelle.id)!.hidden).to.be.true;
+    });
+
+    it("moves tabs back where they came from", async () => {
+      const order = () => model.tabs.window(windows.real.id)!.tabs.slice(0, 4);
+      const before = order();
+
+      await model.putItemsInWindow({
+        items: [model.tabs.tab(tabs.real_bob.id)!],
+        toWindowId: windows.real.id,
+        toIndex: 0,
+      });
+      expect(order()[0]).to.equal(tabs.real_bob.id);
+
+      await model.journal.undo();
+      expect(order()).to.deep.equal(before);
+
+      await model.journal.redo();
+      expect(order()[0]).to.equal(tabs.real_bob.id);
+    });
+
+    it("puts several restored bookmarks back in order", async () => {
+      const titles = () =>
+        childrenOf("big_stash").map(id => model.bookmarks.node(id)!.title);
+      const before = titles();
+
+      await model.putItemsInWindow({
+        items: ["one", "two", "three", "four"].map(
+          n => model.bookmarks.node(bookmarks[n as keyof typeof bookmarks].id)!,
+        ),
+        toWindowId: windows.real.id,
+      });
+      expect(titles()).to.deep.equal(before.slice(4));
+
+      await model.journal.undo();
+      expect(titles()).to.deep.equal(before);
+    });
+
+    it("undoes deleting several items in one step", async () => {
+      await model.deleteItems(ids(["two", "five", "six"]));
+      expect(childrenOf("big_stash")).to.deep.equal(
+        ids(["one", "three", "four", "seven", "eight"]),
+      );
+      expect(model.journal.state.undoable.length).to.equal(1);
+      expect(model.journal.state.recent!.entry.description).to.equal(
+        'deleted 3 tabs from "Big Stash"',
+      );
+
+      await model.journal.undo();
+      expect(
+        childrenOf("big_stash").map(id => model.bookmarks.node(id)!.title),
+      ).to.deep.equal(big_stash.map(n => bookmarks[n].title));
+    });
+
+    it("describes copies and restores as such", async () => {
+      await model.putItemsInFolder({
+        items: model.copying([model.bookmarks.node(bookmarks.helen.id)!]),
+        toFolderId: bookmarks.big_stash.id,
+      });
+      expect(model.journal.state.recent!.entry.description).to.equal(
+        "copied 1 tab",
+      );
+
+      await model.putItemsInWindow({
+        items: [model.bookmarks.node(bookmarks.nate.id)!],
+        toWindowId: windows.real.id,
+      });
+      expect(model.journal.state.recent!.entry.description).to.equal(
+        "restored 1 tab",
+      );
+    });
+
+    it("undoes stashing a whole window in one step", async () => {
+      const stash_root = model.bookmarks.stash_root.value!;
+      const before = Array.from(stash_root.children);
+
+      await model.stashAllTabsInWindow(windows.real.id, {});
+      expect(stash_root.children.length).to.equal(before.length + 1);
+      expect(model.journal.state.undoable.length).to.equal(1);
+      expect(model.journal.state.recent!.entry.description).to.match(
+        /^stashed [0-9]+ tabs to a new group$/,
+      );
+
+      await model.journal.undo();
+      expect(stash_root.children).to.deep.equal(before);
+      expect(model.journal.state.undoable).to.deep.equal([]);
+    });
+
+    it("renames folders", async () => {
+      const folder = model.bookmarks.folder(bookmarks.names.id)!;
+      const old_title = folder.title;
+      await model.bookmarks.rename(folder, "Renamed");
+      expect(model.journal.state.recent!.entry.description).to.equal(
+        `renamed "${old_title}" to "Renamed"`,
+      );
+
+      await model.journal.undo();
+      expect(folder.title).to.equal(old_title);
+
+      await model.journal.redo();
+      expect(folder.title).to.equal("Renamed");
+    });
+
+    it("re-creates folders with new IDs", async () => {
+      const stash_root = model.bookmarks.stash_root.value!;
+      const folder = await model.bookmarks.createStashFolder("New Group");
+      expect(stash_root.children[0]).to.equal(folder.id);
+
+      await model.journal.undo();
+      expect(model.bookmarks.node(folder.id)).to.be.undefined;
+      expect(stash_root.children).not.to.include(folder.id);
+
+      await model.journal.redo();
+      const new_id = model.journal.resolve(folder.id);
+      expect(new_id).not.to.equal(folder.id);
+      expect(stash_root.children[0]).to.equal(new_id);
+      expect(model.bookmarks.node(new_id)!.title).to.equal("New Group");
+
+      // Undo should still find the folder under its new ID
+      await model.journal.undo();
+      expect(model.bookmarks.node(new_id)).to.be.undefined;
+    });
+  });
+
+  describe("snoozes items", () => {
+    beforeEach(() => {
+      events.ignore(undefined);
+    });
+
+    it("snoozes bookmarks and folders", async () => {
+      await model.snoozeItems([model.bookmarks.node(bookmarks.nate.id)!], 2000);
+      await model.snoozeItems(
+        [model.bookmarks.node(bookmarks.big_stash.id)!],
+        1000,
+      );
+
+      expect(await model.bookmark_metadata.snoozedItems()).to.deep.equal([
+        {id: bookmarks.big_stash.id, until: 1000},
+        {id: bookmarks.nate.id, until: 2000},
+      ]);
+    });
+
+    it("stashes open tabs before snoozing them", async () => {
+      await model.snoozeItems([model.tabs.tab(tabs.real_unstashed.id)!], 1000);
+
+      const [bm] = model.bookmarks.bookmarksWithURL(`${B}#unstashed`);
+      expect(bm).not.to.be.undefined;
+      expect(model.bookmarks.isNodeInStashRoot(bm)).to.be.true;
+      expect(await model.bookmark_metadata.snoozedItems()).to.deep.equal([
+        {id: bm.id, until: 1000},
+      ]);
+    });
+
+    it("wakes up items which are due", async () => {
+      await model.snoozeItems(
+        [model.bookmarks.node(bookmarks.nate.id)!],
+        Date.now() - 1000,
+      );
+      await model.snoozeItems(
+        [model.bookmarks.node(bookmarks.unnamed.id)!],
+        Date.now() + 60000,
+      );
+
+      const next = await model.wakeSnoozedItems();
+      expect(next).to.be.greaterThan(Date.now());
+
+      const nate = Array.from(model.tabs.tabsWithURL(`${B}#nate`));
+      expect(nate.length).to.equal(1);
+      expect(nate[0].hidden).not.to.be.ok;
+      expect(nate[0].windowId).to.equal(windows.real.id);
+
+      expect(await model.bookmark_metadata.snoozedItems()).to.deep.equal([
+        {id: bookmarks.unnamed.id, until: next},
+      ]);
+    });
+
+    it("wakes up whole folders", async () => {
+      await model.snoozeItems(
+        [model.bookmarks.node(bookmarks.unnamed.id)!],
+        Date.now() - 1000,
+      );
+
+      expect(await model.wakeSnoozedItems()).to.be.undefined;
+      expect(model.tabs.tabsWithURL(`${B}#undyne`).size).to.equal(1);
+      expect(await model.bookmark_metadata.snoozedItems()).to.deep.equal([]);
+    });
+
+    it("keeps the rest of a woken folder's metadata", async () => {
+      // The metadata hasn't been loaded by anyone before the folder wakes up,
+      // as is usually the case in the background page.
+      const md = {
+        collapsed: true,
+        note: "keep me",
+        tags: ["work"],
+        keep_sorted: "title" as const,
+      };
+      await bookmark_metadata.set([
+        {key: bookmarks.unnamed.id, value: {...md, snoozed_until: 1}},
+      ]);
+
+      expect(await model.wakeSnoozedItems()).to.be.undefined;
+      expect(await model.bookmark_metadata.snoozedItems()).to.deep.equal([]);
+      expect(await bookmark_metadata.get([bookmarks.unnamed.id])).to.deep.equal(
+        [{key: bookmarks.unnamed.id, value: md}],
+      );
+    });
+
+    it("forgets snoozed items which were deleted", async () => {
+      await model.bookmark_metadata.setSnoozedUntil("nonexistent", 0);
+      await model.bookmark_metadata.snoozedItems();
+      await nextTick();
+
+      expect(await model.wakeSnoozedItems()).to.be.undefined;
+      expect(await model.bookmark_metadata.snoozedItems()).to.deep.equal([]);
+    });
   });
 
   describe("deletes and un-deletes bookmarks", () => {
@@ -30,7 +30,7 @@
 //   mutating and accessing the state in various ways that a user might want to
 //   perform.  All the business logic resides here.
 
-import {inject, type InjectionKey} from "vue";
+import {computed, inject, watch, type InjectionKey} from "vue";
 import browser from "webextension-polyfill";
 
 import {
@@ -40,22 +40,26 @@ import {
   shortPoll,
   TaskMonitor,
   tryAgain,
+  urlPatternMatcher,
   urlToOpen,
 } from "../util";
 import {trace_fn} from "../util/debug";
 import {logError, logErrorsFrom, UserError} from "../util/oops";
 
+import * as ActivityLog from "./activity-log";
 import * as BookmarkMetadata from "./bookmark-metadata";
 import * as Bookmarks from "./bookmarks";
 import * as BrowserSettings from "./browser-settings";
 import * as Containers from "./containers";
 import * as DeletedItems from "./deleted-items";
 import * as Favicons from "./favicons";
+import * as Journal from "./journal";
 import * as Options from "./options";
 import * as Selection from "./selection";
 import * as Tabs from "./tabs";
 
 export {
+  ActivityLog,
   BrowserSettings,
   Options,
   Tabs,
@@ -79,7 +83,12 @@ export type StashLeaf = NewTab | Bookmarks.Bookmark | Tabs.Tab;
 /** An actual bookmark/tab that is part of the model. */
 export type ModelItem = Bookmarks.Node | Tabs.Tab;
 
-export type NewTab = {title?: string; url: string};
+export type NewTab = {
+  title?: string;
+  url: string;
+  /** The (Firefox) container the tab should be opened in, if any. */
+  cookieStoreId?: string;
+};
 export type NewFolder = {title: string; children: (NewTab | NewFolder)[]};
 
 export const isModelItem = (item: StashItem): item is ModelItem => "id" in item;
@@ -113,6 +122,7 @@ export type Source = {
   readonly containers: Containers.Model;
   readonly bookmarks: Bookmarks.Model;
   readonly deleted_items: DeletedItems.Model;
+  readonly activity_log: ActivityLog.Model;
 
   readonly favicons: Favicons.Model;
   readonly bookmark_metadata: BookmarkMetadata.Model;
@@ -134,10 +144,25 @@ export class Model {
   readonly containers: Containers.Model;
   readonly bookmarks: Bookmarks.Model;
   readonly deleted_items: DeletedItems.Model;
+  readonly activity_log: ActivityLog.Model;
 
   readonly favicons: Favicons.Model;
   readonly bookmark_metadata: BookmarkMetadata.Model;
   readonly selection: Selection.Model;
+  readonly journal: Journal.Model;
+
+  /** The most recent workspace switch in each window (see
+   * undoSwitchWorkspace()). */
+  private readonly _workspace_switches = new Map<
+    Tabs.WindowID,
+    Journal.Transaction
+  >();
+
+  /** Matchers for the patterns in the user's stash blocklist, which are
+   * compiled only when the blocklist changes. */
+  private readonly _blocklist = computed(() =>
+    this.options.sync.state.stash_blocklist.map(urlPatternMatcher),
+  );
 
   static readonly injectionKey = Symbol("model") as InjectionKey<Model>;
   static get(): Model {
@@ -152,10 +177,30 @@ export class Model {
     this.containers = src.containers;
     this.bookmarks = src.bookmarks;
     this.deleted_items = src.deleted_items;
+    this.activity_log = src.activity_log;
 
     this.favicons = src.favicons;
     this.bookmark_metadata = src.bookmark_metadata;
     this.selection = new Selection.Model([this.tabs, this.bookmarks]);
+
+    this.journal = new Journal.Model();
+    this.tabs.journal = this.journal;
+    this.bookmarks.journal = this.journal;
+    this.bookmarks.activity_log = this.activity_log;
+
+    watch(
+      () => this.options.local.state.current_stash_profile,
+      profile => this.bookmarks.setProfile(profile),
+      {immediate: true},
+    );
+    watch(
+      this.options.urlNormalization,
+      rules => {
+        this.tabs.setURLNormalization(rules);
+        this.bookmarks.setURLNormalization(rules);
+      },
+      {immediate: true},
+    );
   }
 
   /** Reload model data (where possible) in the event of an unexpected issue.
@@ -199,8 +244,8 @@ export class Model {
   }
 
   /** Is the passed-in URL one we want to include in the stash?  Excludes
-   * things like new-tab pages and Tab Stash pages (so we don't stash
-   * ourselves). */
+   * things like new-tab pages, pages on the user's blocklist and Tab Stash
+   * pages (so we don't stash ourselves). */
   isURLStashable(url_str?: string): boolean {
     // Things without URLs are not stashable.
     if (!url_str) return false;
@@ -208,6 +253,9 @@ export class Model {
     // New-tab URLs, homepages and the like are never stashable.
     if (this.browser_settings.isNewTabURL(url_str)) return false;
 
+    // Neither is anything the user has asked us not to stash.
+    if (this.isURLBlocked(url_str)) return false;
+
     // Invalid URLs are not stashable.
     try {
       new URL(url_str);
@@ -219,6 +267,21 @@ export class Model {
     return !url_str.startsWith(browser.runtime.getURL(""));
   }
 
+  /** Does the passed-in URL match any of the patterns in the user's stash
+   * blocklist? */
+  isURLBlocked(url: string): boolean {
+    return this._blocklist.value.some(matches => matches(url));
+  }
+
+  /** Returns the first of the user's stash rules which applies to the URL
+   * (if any). */
+  stashRuleFor(url: string): Options.StashRule | undefined {
+    return this.options.sync.state.stash_rules.find(
+      ([pattern, folder]) =>
+        folder.trim() !== "" && urlPatternMatcher(pattern)(url),
+    );
+  }
+
   /** If the topmost folder in the stash root is an unnamed folder which was
    * created recently, return its ID.  Otherwise return `undefined`.  Used to
    * determine where to place single bookmarks we are trying to stash, if we
@@ -252,6 +315,20 @@ export class Model {
     return topmost;
   }
 
+  /** Returns the names of all the stash profiles, starting with the default
+   * profile (""), and including the current profile even if it has since been
+   * removed from the list of profiles. */
+  profiles(): string[] {
+    const profiles = [""];
+    for (const p of [
+      ...this.options.sync.state.stash_profiles,
+      this.bookmarks.profile.value,
+    ]) {
+      if (!profiles.includes(p)) profiles.push(p);
+    }
+    return profiles;
+  }
+
   /** Yields all selected items (tabs and bookmarks). */
   *selectedItems(): Generator<ModelItem> {
     for (const item of this.tabs.selectedItems()) yield item;
@@ -263,7 +340,8 @@ export class Model {
    * This will exclude things like pinned and hidden tabs, or tabs with
    * privileged URLs.  If a window has multiple selected tabs (i.e. the user
    * has made an explicit choice about what to stash), only the selected tabs
-   * will be returned.
+   * will be returned.  Tabs on the user's blocklist are never returned, even
+   * if they are selected.
    */
   stashableTabsInWindow(windowId: Tabs.WindowID): Tabs.Tab[] {
     const win = expect(
@@ -286,7 +364,7 @@ export class Model {
     // because otherwise the user might have a pinned tab focused, and highlight
     // a single specific tab they want stashed (in addition to the active
     // pinned tab), and then ALL tabs would unexpectedly get stashed. [#61]
-    return selected.filter(t => !t.pinned);
+    return selected.filter(t => !t.pinned && !this.isURLBlocked(t.url));
   }
 
   //
@@ -303,17 +381,29 @@ export class Model {
         60 *
         1000;
 
-    await this.deleted_items.dropOlderThan(deleted_exp);
+    const expired = await this.deleted_items.dropOlderThan(deleted_exp);
+    if (expired > 0) {
+      await this.activity_log.log(
+        "gc",
+        `permanently deleted ${expired} expired deleted item(s)`,
+      );
+    }
+    await this.activity_log.gc();
     await this.favicons.gc(
       url =>
         this.bookmarks.bookmarksWithURL(url).size > 0 ||
         this.tabs.tabsWithURL(url).size > 0,
     );
-    await this.bookmark_metadata.gc(
-      id =>
+    await this.bookmark_metadata.gc(id => {
+      const windowId = BookmarkMetadata.windowIdFromMetadataId(id);
+      if (windowId !== undefined) {
+        return !!this.tabs.window(windowId as Tabs.WindowID);
+      }
+      return (
         id === BookmarkMetadata.CUR_WINDOW_MD_ID ||
-        !!this.bookmarks.node(id as Bookmarks.NodeID),
-    );
+        !!this.bookmarks.node(id as Bookmarks.NodeID)
+      );
+    });
   }
 
   /** Stashes all eligible tabs in the specified window, leaving the existing
@@ -329,16 +419,227 @@ export class Model {
     const tabs = this.stashableTabsInWindow(window);
     if (tabs.length === 0) return;
 
-    await this.putItemsInFolder({
+    await this.putItemsInNewFolder({
       items: this.copyIf(!!options.copy, tabs),
-      toFolderId: (
-        await this.bookmarks.createStashFolder(
+      parentId: options.parent,
+      position: options.position,
+    });
+  }
+
+  /** Stashes (or copies) a single tab into the group it belongs in, per
+   * `ensureFolderForURL()`.  Returns the tab's bookmark. */
+  async stashTab(
+    tab: Tabs.Tab,
+    options: {copy?: boolean; txn?: Journal.Transaction},
+  ): Promise<Bookmarks.Node> {
+    const items = this.copyIf(!!options.copy, [tab]);
+    const [node] = await this.journal.transaction(
+      describePut(items, "folder"),
+      async txn =>
+        await this.putItemsInFolder({
+          items,
+          toFolderId: (await this.ensureFolderForURL(tab.url, txn)).id,
+          txn,
+        }),
+      options.txn,
+    );
+    if (!options.txn) await this.logPut(items, node.parentId);
+    return node;
+  }
+
+  /** Stashes items from outside the browser (e.g. URLs sent by another
+   * extension) into the group they belong in, as a single undoable operation.
+   * If every item matches the same stash rule, that's the rule's group;
+   * otherwise it's the recent unnamed folder (see `ensureFolderForURL()`).
+   * Returns the group. */
+  async stashItems(
+    items: (StashItem & {url: string})[],
+  ): Promise<Bookmarks.Folder> {
+    const rules = new Set(items.map(i => this.stashRuleFor(i.url)?.[1]));
+    const url = rules.size === 1 ? items[0]?.url : undefined;
+
+    const folder = await this.journal.transaction(
+      describePut(items, "folder"),
+      async txn => {
+        const folder = await this.ensureFolderForURL(url, txn);
+        await this.putItemsInFolder({items, toFolderId: folder.id, txn});
+        return folder;
+      },
+    );
+    await this.logPut(items, folder.id);
+    return folder;
+  }
+
+  /** Stashes the contents of a window which was just closed into a new group,
+   * so the tabs don't disappear into the browser's recently-closed list.  The
+   * group is named after the domain most of the tabs were looking at (if
+   * there is one), or else the time the window was closed.
+   *
+   * Private windows, windows with nothing worth stashing (e.g. only new-tab
+   * pages) and tabs which are already in the stash are skipped.  Returns the
+   * new group, if one was created. */
+  async stashClosedWindow(
+    win: Tabs.ClosedWindow,
+  ): Promise<Bookmarks.Folder | undefined> {
+    if (win.incognito) return undefined;
+
+    const tabs = win.tabs.filter(
+      t =>
+        !t.hidden &&
+        !t.pinned &&
+        this.isURLStashable(t.url) &&
+        !this.bookmarks.isURLStashed(t.url),
+    );
+    if (tabs.length === 0) return undefined;
+
+    return await this.putItemsInNewFolder({
+      items: this.copying(tabs),
+      title:
+        dominantDomain(tabs.map(t => t.url)) ??
+        `Window Closed ${new Date(win.closedAt).toLocaleString()}`,
+    });
+  }
+
+  /** Switches the workspace shown in a window.  All the stashable tabs in the
+   * window are stashed into the window's current workspace folder (or a new
+   * group, if the window doesn't have a workspace yet), and the tabs in
+   * `toFolderId` are restored into the window in their place.  The folder
+   * keeps its bookmarks, so it becomes the window's new workspace.
+   *
+   * The previous workspace is remembered, so the switch can be reversed
+   * later (see undoSwitchWorkspace()). */
+  async switchWorkspace(
+    windowId: Tabs.WindowID,
+    toFolderId: Bookmarks.NodeID,
+  ): Promise<void> {
+    const to_folder = this.bookmarks.folder(toFolderId);
+    if (!to_folder || !this.bookmarks.isNodeInStashRoot(to_folder)) {
+      throw new UserError(`Workspaces must be groups in your stash`);
+    }
+    const win = expect(
+      this.tabs.window(windowId),
+      () => `Trying to switch workspaces in unknown window ${windowId}`,
+    );
+
+    const md_id = BookmarkMetadata.windowMetadataId(windowId);
+    await this.bookmark_metadata.load([md_id]);
+    const md = this.bookmark_metadata.get(md_id).value;
+    if (md?.workspace === to_folder.id) return;
+
+    await this.operation(
+      "restore",
+      `switched to "${Bookmarks.friendlyFolderName(to_folder.title)}"`,
+      txn => {
+        this._workspace_switches.set(windowId, txn);
+        return this._switchWorkspace(win, md?.workspace, to_folder, txn);
+      },
+    );
+  }
+
+  private async _switchWorkspace(
+    win: Tabs.Window,
+    from_folder_id: string | undefined,
+    to_folder: Bookmarks.Folder,
+    txn: Journal.Transaction,
+  ): Promise<void> {
+    const windowId = win.id;
+
+    // First, save the window's tabs into the current workspace.  We leave
+    // the tabs open for now so the window doesn't end up empty while we're
+    // restoring the new workspace.  Putting them at the top of the folder
+    // keeps the folder in the same order as the window (unless the folder is
+    // kept sorted, in which case it's re-sorted as usual).
+    const old_tabs = this.tabs
+      .tabsIn(win)
+      .filter(t => !t.hidden && !t.pinned && this.isURLStashable(t.url));
+    let from_folder =
+      from_folder_id !== undefined
+        ? this.bookmarks.folder(from_folder_id as Bookmarks.NodeID)
+        : undefined;
+    if (old_tabs.length > 0) {
+      if (!from_folder) {
+        from_folder = await this.bookmarks.createStashFolder(
           undefined,
-          options.parent,
-          options.position,
-        )
-      ).id,
+          undefined,
+          undefined,
+          txn,
+        );
+      }
+      await this.putItemsInFolder({
+        items: this.copying(old_tabs),
+        toFolderId: from_folder.id,
+        toIndex: 0,
+        txn,
+      });
+    }
+    if (from_folder) this.setWorkspace(windowId, from_folder.id, txn);
+
+    // Then bring in the new workspace.
+    const restored = await this.putItemsInWindow({
+      items: await this.copyingWithContainers(
+        this.bookmarks.childrenOf(to_folder).filter(Bookmarks.isBookmark),
+      ),
+      toWindowId: windowId,
+      txn,
     });
+    if (restored.length > 0) {
+      await browser.tabs.update(restored[0].id, {active: true});
+    }
+    this.setWorkspace(windowId, to_folder.id, txn);
+
+    // Finally, get rid of the old tabs (except any which were also part of
+    // the new workspace).
+    const restored_ids = new Set(restored.map(t => t.id));
+    const old_tab_ids = filterMap(old_tabs, t =>
+      restored_ids.has(t.id) ? undefined : t.id,
+    );
+    if (old_tab_ids.length > 0) {
+      await this.hideOrCloseStashedTabs(old_tab_ids, txn);
+    }
+  }
+
+  /** Remember that a window is now showing the workspace in `folderId` (see
+   * `BookmarkMetadata.Model.setWorkspace()`), recording the change in
+   * `txn`. */
+  private setWorkspace(
+    windowId: Tabs.WindowID,
+    folderId: Bookmarks.NodeID,
+    txn: Journal.Transaction,
+  ) {
+    const j = this.journal;
+    const md = this.bookmark_metadata;
+    const id = BookmarkMetadata.windowMetadataId(windowId);
+    const prev = md.get(id).value ?? {};
+    md.setWorkspace(windowId, folderId);
+    j.record(txn, {
+      undo: async () => void md.set(id, prev),
+      redo: async () => md.setWorkspace(windowId, j.resolve(folderId)),
+    });
+  }
+
+  /** Reverses the most recent call to switchWorkspace() in a window.  If
+   * nothing else has been done since, the switch is undone completely (see
+   * `undo()`), so the window and the stash end up just as they were before.
+   * Otherwise, the window is switched back to the workspace it was showing
+   * before. */
+  async undoSwitchWorkspace(windowId: Tabs.WindowID): Promise<void> {
+    const txn = this._workspace_switches.get(windowId);
+    if (txn && this.journal.isNextUndo(txn)) {
+      this._workspace_switches.delete(windowId);
+      await this.undo();
+      return;
+    }
+
+    const prev = this.bookmark_metadata.get(
+      BookmarkMetadata.windowMetadataId(windowId),
+    ).value?.previous_workspace;
+    if (
+      prev === undefined ||
+      !this.bookmarks.folder(prev as Bookmarks.NodeID)
+    ) {
+      throw new UserError(`There is no previous workspace to switch back to`);
+    }
+    await this.switchWorkspace(windowId, prev as Bookmarks.NodeID);
   }
 
   /** Put the set of currently-selected items in the specified folder
@@ -348,18 +649,23 @@ export class Model {
   async putSelectedIn(options?: {
     copy?: boolean;
     toFolderId?: Bookmarks.NodeID;
+    txn?: Journal.Transaction;
   }) {
     const from_items = Array.from(this.selectedItems());
-    const items = this.copyIf(options?.copy === true, from_items);
+    const items =
+      options?.copy === true
+        ? await this.copyingWithContainers(from_items)
+        : from_items;
 
     let affected_items: StashItem[];
     if (options?.toFolderId === undefined) {
-      affected_items = await this.putItemsInWindow({items});
+      affected_items = await this.putItemsInWindow({items, txn: options?.txn});
     } else {
       affected_items = await this.putItemsInFolder({
         items,
         toFolderId: options.toFolderId,
         allowDuplicates: options?.copy === true,
+        txn: options.txn,
       });
     }
     if (!options?.copy) {
@@ -367,23 +673,144 @@ export class Model {
     }
   }
 
+  /** Put the set of currently-selected items in a new group (see
+   * `putItemsInNewFolder()`).  Returns the new group. */
+  async putSelectedInNewFolder(options: {
+    copy: boolean;
+    title?: string;
+    parentId?: Bookmarks.NodeID;
+    position?: "top" | "bottom";
+  }): Promise<Bookmarks.Folder> {
+    const items = Array.from(this.selectedItems());
+    return await this.operation(
+      options.copy ? "stash" : putActivity(items),
+      `${options.copy ? "copied" : "moved"} ${describeItems(items)} ` +
+        `to a new group`,
+      async txn => {
+        const folder = await this.bookmarks.createStashFolder(
+          options.title,
+          options.parentId,
+          options.position,
+          txn,
+        );
+        await this.putSelectedIn({
+          copy: options.copy,
+          toFolderId: folder.id,
+          txn,
+        });
+        return folder;
+      },
+    );
+  }
+
   /** Put the set of currently-selected items in the current window. */
   async putSelectedInWindow(options: {copy: boolean}) {
     await this.putSelectedIn(options);
   }
 
+  /** Merges the contents of several folders into the first one.  Children of
+   * the other folders are moved to the end of the first folder, except for
+   * bookmarks whose URL is already there, which are left behind.  The other
+   * folders (now empty, apart from any duplicates) are then deleted, so they
+   * can be restored from deleted items.  Notes and tags on the other folders
+   * are combined into the first folder's. */
+  async mergeFolders(folders: Bookmarks.Folder[]): Promise<void> {
+    const [into, ...from] = folders;
+    if (!into) return;
+
+    const path = this.bookmarks.pathTo(into).map(p => p.parent.id);
+    for (const f of from) {
+      if (path.includes(f.id)) {
+        throw new UserError(
+          `Cannot merge a group into one of its own sub-groups`,
+        );
+      }
+    }
+
+    await this.bookmark_metadata.load(folders.map(f => f.id));
+    await this.operation(
+      "move",
+      `merged ${from.length} group${from.length === 1 ? "" : "s"} into ` +
+        `"${Bookmarks.friendlyFolderName(into.title)}"`,
+      txn => this._mergeFolders(into, from, txn),
+    );
+  }
+
+  private async _mergeFolders(
+    into: Bookmarks.Folder,
+    from: Bookmarks.Folder[],
+    txn: Journal.Transaction,
+  ): Promise<void> {
+    const notes: string[] = [];
+    const tags: string[] = [];
+
+    for (const f of from) {
+      // The folder may have been merged already, if it was inside one of the
+      // other folders.
+      if (!this.bookmarks.folder(f.id) || f.id === into.id) continue;
+
+      const urls = new Set(
+        this.bookmarks
+          .childrenOf(into)
+          .filter(Bookmarks.isBookmark)
+          .map(bm => bm.url),
+      );
+      const items = this.bookmarks.childrenOf(f).filter(n => {
+        if (!Bookmarks.isBookmark(n)) return true;
+        if (urls.has(n.url)) return false;
+        urls.add(n.url);
+        return true;
+      });
+      await this.putItemsInFolder({items, toFolderId: into.id, txn});
+
+      const md = this.bookmark_metadata.get(f.id).value;
+      if (md?.note) notes.push(md.note);
+      if (md?.tags) tags.push(...md.tags);
+
+      await this.deleteBookmarkTree(f.id, undefined, txn);
+    }
+
+    const md = this.bookmark_metadata.get(into.id).value;
+    if (notes.length > 0) {
+      await this.bookmark_metadata.setNote(
+        into.id,
+        [...(md?.note ? [md.note] : []), ...notes].join("\n\n"),
+      );
+    }
+    if (tags.length > 0) {
+      await this.bookmark_metadata.setTags(into.id, [
+        ...(md?.tags ?? []),
+        ...tags,
+      ]);
+    }
+
+    const j = this.journal;
+    const merged_md = this.bookmark_metadata.get(into.id).value;
+    j.record(txn, {
+      undo: async () =>
+        void this.bookmark_metadata.set(j.resolve(into.id), md ?? {}),
+      redo: async () =>
+        void this.bookmark_metadata.set(j.resolve(into.id), merged_md ?? {}),
+    });
+  }
+
   /** Put the set of currently-selected items in the specified folder. */
   async putSelectedInFolder(options: {
     copy: boolean;
     toFolderId: Bookmarks.NodeID;
+    txn?: Journal.Transaction;
   }) {
     await this.putSelectedIn(options);
   }
 
   /** Hide/discard/close the specified tabs, according to the user's settings
    * for what to do with stashed tabs.  Creates a new tab if necessary to keep
-   * the browser window(s) open. */
-  async hideOrCloseStashedTabs(tabIds: Tabs.TabID[]): Promise<void> {
+   * the browser window(s) open.  The changes are recorded as part of `txn`,
+   * if it's given. */
+  async hideOrCloseStashedTabs(
+    tabIds: Tabs.TabID[],
+    txn?: Journal.Transaction,
+  ): Promise<void> {
     await this.tabs.refocusAwayFromTabs(tabIds);
 
     // Clear any highlights/selections on tabs we are stashing
@@ -396,29 +823,131 @@ export class Model {
     );
 
     // istanbul ignore else -- hide() is always available in tests
-    if (browser.tabs.hide) {
+    //
+    // (hide() is called from hideTabs() rather than in here, so TypeScript
+    // needs the `!!` to accept that it might not exist.)
+    if (!!browser.tabs.hide) {
       // If the browser supports hiding tabs, then hide or close them
       // according to the user's preference.
       switch (this.options.local.state.after_stashing_tab) {
         case "hide_discard":
-          await browser.tabs.hide(tabIds);
+          await this.hideTabs(tabIds, txn);
           await browser.tabs.discard(tabIds);
           break;
         case "close":
-          await this.tabs.remove(tabIds);
+          await this.tabs.remove(tabIds, txn);
           break;
         case "hide":
         default:
-          await browser.tabs.hide(tabIds);
+          await this.hideTabs(tabIds, txn);
           break;
       }
     } else {
       // The browser does not support hiding tabs, so our only option is
       // to close them.
-      await this.tabs.remove(tabIds);
+      await this.tabs.remove(tabIds, txn);
     }
   }
 
+  /** Runs `fn()` as a single undoable operation (see
+   * `Journal.Model.transaction()`).  Unless it's part of a larger operation
+   * (`parent`), it's also logged in the activity log once it's done. */
+  private async operation<R>(
+    type: ActivityLog.ActivityType,
+    description: string,
+    fn: (txn: Journal.Transaction) => Promise<R>,
+    parent?: Journal.Transaction,
+  ): Promise<R> {
+    const res = await this.journal.transaction(description, fn, parent);
+    if (!parent) await this.activity_log.log(type, description);
+    return res;
+  }
+
+  /** Undo the most recent operation (see `Journal.Model.undo()`), noting it
+   * in the activity log. */
+  async undo(): Promise<void> {
+    const entry = await this.journal.undo();
+    if (entry)
+      await this.activity_log.log("undo", `undid: ${entry.description}`);
+  }
+
+  /** Redo the most recently-undone operation (see `Journal.Model.redo()`),
+   * noting it in the activity log. */
+  async redo(): Promise<void> {
+    const entry = await this.journal.redo();
+    if (entry)
+      await this.activity_log.log("undo", `redid: ${entry.description}`);
+  }
+
+  /** Describes where a list of items came from for the activity log (e.g.
+   * ` from "Some Group"`), if they all came from the same group. */
+  private describeOrigin(items: StashItem[]): string {
+    const parents = new Set(
+      filterMap(items, i => (isNode(i) ? i.parentId : undefined)),
+    );
+    if (parents.size !== 1) return "";
+    const folder = this.bookmarks.folder(Array.from(parents)[0]);
+    if (!folder) return "";
+    return ` from "${Bookmarks.friendlyFolderName(folder.title)}"`;
+  }
+
+  /** Hide the specified tabs, recording the change in `txn` (if given). */
+  private async hideTabs(
+    tabIds: Tabs.TabID[],
+    txn?: Journal.Transaction,
+  ): Promise<void> {
+    const j = this.journal;
+    const show = async (tabIds: Tabs.TabID[]) => {
+      await browser.tabs.show(tabIds);
+      await shortPoll(() => {
+        if (tabIds.find(id => this.tabs.tab(id)?.hidden)) tryAgain();
+      });
+    };
+    const hide = async (tabIds: Tabs.TabID[]) => {
+      await browser.tabs.hide(tabIds);
+      await shortPoll(() => {
+        if (tabIds.find(id => this.tabs.tab(id)?.hidden === false)) tryAgain();
+      });
+    };
+
+    await browser.tabs.hide(tabIds);
+    j.record(txn, {
+      undo: () => show(tabIds.map(id => j.resolve(id))),
+      redo: () => hide(tabIds.map(id => j.resolve(id))),
+    });
+  }
+
+  /** Show a hidden tab, recording the change in `txn` (if given). */
+  private async showTab(
+    tabId: Tabs.TabID,
+    txn?: Journal.Transaction,
+  ): Promise<void> {
+    const j = this.journal;
+    await browser.tabs.show(tabId);
+    j.record(txn, {
+      undo: () => this.hideTabs([j.resolve(tabId)]),
+      redo: () => this.showTab(j.resolve(tabId)),
+    });
+  }
+
+  /** Remember that the stashed bookmarks among `items` were just opened, so
+   * they don't show up in staleItems(). */
+  markOpened(items: StashItem[], at: number = Date.now()) {
+    for (const i of items) {
+      if (!isNode(i) || !Bookmarks.isBookmark(i)) continue;
+      if (!this.bookmarks.isNodeInStashRoot(i)) continue;
+      this.bookmark_metadata.setLastOpened(i.id, at);
+    }
+  }
+
+  /** Remember that the user was just looking at `url` in a tab, so any
+   * bookmarks for the same page in the stash were (in effect) opened.  URLs
+   * are compared using the user's URL-matching options (see normalizeURL()),
+   * just as when deciding whether a tab is stashed. */
+  markURLOpened(url: string, at?: number) {
+    this.markOpened(Array.from(this.bookmarks.bookmarksWithURL(url)), at);
+  }
+
   /** Restores the specified URLs as new tabs in the current window.  Returns
    * the IDs of the restored tabs.
    *
@@ -438,12 +967,21 @@ export class Model {
       () => `Target window ${toWindowId} is unknown to the model`,
     );
 
+    this.markOpened(items);
+    const copies = await this.copyingWithContainers(items);
+
     // As a special case, if we are restoring just a single tab, first check
-    // if we already have the tab open and just switch to it.  (No need to
-    // disturb the ordering of tabs in the browser window.)
-    if (!options.background && items.length === 1 && items[0].url) {
-      const t = Array.from(this.tabs.tabsWithURL(items[0].url)).find(
-        t => !t.hidden && t.windowId === toWindowId,
+    // if we already have the tab open (in the right container) and just
+    // switch to it.  (No need to disturb the ordering of tabs in the browser
+    // window.)
+    const single = copies.length === 1 ? copies[0] : undefined;
+    if (!options.background && single && "url" in single && single.url) {
+      const t = Array.from(this.tabs.tabsWithURL(single.url)).find(
+        t =>
+          !t.hidden &&
+          t.windowId === toWindowId &&
+          (single.cookieStoreId === undefined ||
+            t.cookieStoreId === single.cookieStoreId),
       );
       if (t) {
         await browser.tabs.update(t.id, {active: true});
@@ -459,10 +997,11 @@ export class Model {
     // close it if it's just the new-tab page.
     const active_tab = win_tabs.filter(t => t.active)[0];
 
-    const tabs = await this.putItemsInWindow({
-      items: this.copying(items),
-      toWindowId,
-    });
+    const tabs = await this.putItemsInWindow({items: copies, toWindowId});
+    await this.activity_log.log(
+      "restore",
+      `restored ${describeItems(items)}${this.describeOrigin(items)}`,
+    );
 
     if (!options.background) {
       // Switch to the last tab that we restored (if desired).  We choose
@@ -487,12 +1026,115 @@ export class Model {
     return tabs;
   }
 
+  /** Restores the specified URLs as new tabs in a brand-new window, in the
+   * order they are given.  Tabs are loaded (or not) according to the user's
+   * `load_tabs_on_restore` setting, just as with restoreTabs(). */
+  async restoreTabsInNewWindow(items: StashLeaf[]): Promise<Tabs.Tab[]> {
+    if (items.length === 0) return [];
+
+    this.markOpened(items);
+    const win = await this.tabs.createWindow();
+    const initial_tabs = this.tabs.tabsIn(win);
+
+    const tabs = await this.journal.transaction(
+      `restored ${describeItems(items)} in a new window`,
+      async txn => {
+        const tabs = await this.putItemsInWindow({
+          items: await this.copyingWithContainers(items),
+          toWindowId: win.id,
+          txn,
+        });
+        // Unlike restoreTabs(), we switch to the FIRST tab, since the user is
+        // going to be reading the window from the beginning.  Then we can get
+        // rid of the tab the browser created along with the window.
+        if (tabs.length > 0) {
+          await browser.tabs.update(tabs[0].id, {active: true});
+          await this.tabs.remove(
+            initial_tabs.map(t => t.id),
+            txn,
+          );
+        }
+        return tabs;
+      },
+    );
+    await this.activity_log.log(
+      "restore",
+      `restored ${describeItems(items)}${this.describeOrigin(items)} ` +
+        `in a new window`,
+    );
+    return tabs;
+  }
+
   /** Returns the ID of an unnamed folder at the top of the stash, creating a
    * new one if necessary. */
-  async ensureRecentUnnamedFolder(): Promise<Bookmarks.Folder> {
+  async ensureRecentUnnamedFolder(
+    txn?: Journal.Transaction,
+  ): Promise<Bookmarks.Folder> {
     const folder = this.mostRecentUnnamedFolder();
     if (folder !== undefined) return folder;
-    return await this.bookmarks.createStashFolder();
+    return await this.bookmarks.createStashFolder(
+      undefined,
+      undefined,
+      undefined,
+      txn,
+    );
+  }
+
+  /** Returns the folder a single tab with the given URL should be stashed in.
+   * If the URL matches one of the user's stash rules, this is the top-level
+   * group named by the rule (which is created if it doesn't exist yet).
+   * Otherwise, it's the recent unnamed folder (per
+   * `ensureRecentUnnamedFolder()`). */
+  async ensureFolderForURL(
+    url: string | undefined,
+    txn?: Journal.Transaction,
+  ): Promise<Bookmarks.Folder> {
+    const rule = url !== undefined ? this.stashRuleFor(url) : undefined;
+    if (!rule) return await this.ensureRecentUnnamedFolder(txn);
+
+    const stash_root = await this.bookmarks.ensureStashRoot();
+    const folder = this.bookmarks
+      .childrenOf(stash_root)
+      .find(c => Bookmarks.isFolder(c) && c.title === rule[1]);
+    if (folder) return folder as Bookmarks.Folder;
+    return await this.bookmarks.createStashFolder(
+      rule[1],
+      undefined,
+      undefined,
+      txn,
+    );
+  }
+
+  /** Creates a new group (see `Bookmarks.Model.createStashFolder()`) and
+   * moves or copies items into it (see `putItemsInFolder()`), as a single
+   * undoable operation.  Returns the new group. */
+  async putItemsInNewFolder(options: {
+    items: StashItem[];
+    title?: string;
+    parentId?: Bookmarks.NodeID;
+    position?: "top" | "bottom";
+    task?: TaskMonitor;
+  }): Promise<Bookmarks.Folder> {
+    const folder = await this.journal.transaction(
+      `${describePut(options.items, "folder")} to a new group`,
+      async txn => {
+        const folder = await this.bookmarks.createStashFolder(
+          options.title,
+          options.parentId,
+          options.position,
+          txn,
+        );
+        await this.putItemsInFolder({
+          items: options.items,
+          toFolderId: folder.id,
+          task: options.task,
+          txn,
+        });
+        return folder;
+      },
+    );
+    await this.logPut(options.items, folder.id);
+    return folder;
   }
 
   /** Moves or copies items (bookmarks, tabs, and/or external items) to a
@@ -505,14 +1147,48 @@ export class Model {
    *
    * If a bookmark with the same title/URL already exists in the folder, it
    * will be moved into place instead of creating a new bookmark, so as to
-   * avoid creating duplicates. */
+   * avoid creating duplicates.
+   *
+   * If the folder is kept sorted (see `BookmarkMetadata.keep_sorted`), it is
+   * re-sorted afterward, so the items may not stay at `toIndex`--the user's
+   * chosen order takes precedence over the caller's. */
   async putItemsInFolder(options: {
     items: StashItem[];
     toFolderId: Bookmarks.NodeID;
     toIndex?: number;
     allowDuplicates?: boolean;
     task?: TaskMonitor;
+    txn?: Journal.Transaction;
   }): Promise<Bookmarks.Node[]> {
+    const moved = await this.journal.transaction(
+      describePut(options.items, "folder"),
+      txn => this._putItemsInFolder(options, txn),
+      options.txn,
+    );
+
+    if (!options.txn) await this.logPut(options.items, options.toFolderId);
+    return moved;
+  }
+
+  /** Logs putting items into a folder in the activity log (unless there
+   * weren't any items). */
+  private async logPut(items: StashItem[], folderId: string | undefined) {
+    if (items.length === 0) return;
+    const folder =
+      folderId !== undefined
+        ? this.bookmarks.folder(folderId as Bookmarks.NodeID)
+        : undefined;
+    await this.activity_log.log(
+      putActivity(items),
+      `${describePut(items, "folder")} into ` +
+        `"${Bookmarks.friendlyFolderName(folder?.title ?? "")}"`,
+    );
+  }
+
+  private async _putItemsInFolder(
+    options: Parameters<Model["putItemsInFolder"]>[0],
+    txn: Journal.Transaction,
+  ): Promise<Bookmarks.Node[]> {
     // First we try to find the folder we're moving to.
     const to_folder = expect(
       this.bookmarks.folder(options.toFolderId),
@@ -565,7 +1241,7 @@ export class Model {
       // If it's a bookmark node, just move it directly.
       if (model_item && isNode(model_item)) {
         const pos = this.bookmarks.positionOf(model_item);
-        await this.bookmarks.move(model_item.id, to_folder.id, to_index);
+        await this.bookmarks.move(model_item.id, to_folder.id, to_index, txn);
         moved_items.push(model_item);
         dont_steal_bms.add(model_item.id);
 
@@ -606,8 +1282,14 @@ export class Model {
         node = already_there[0];
 
         const pos = this.bookmarks.positionOf(node);
-        await this.bookmarks.move(node.id, to_folder.id, to_index);
+        await this.bookmarks.move(node.id, to_folder.id, to_index, txn);
         if (pos && pos.parent === to_folder && pos.index < to_index) --to_index;
+
+        // The bookmark now represents the tab, so it should follow the tab's
+        // container too.
+        if (isTab(item) || (isNewTab(item) && item.cookieStoreId)) {
+          this.bookmark_metadata.setContainer(node.id, this.containerFor(item));
+        }
       } else {
         // There is no duplicate, so we can just create a new one.  We might
         // also make it here if we've been given a folder of bookmarks to copy
@@ -619,23 +1301,30 @@ export class Model {
         ): Promise<Bookmarks.Node> => {
           const node =
             "url" in item
-              ? await this.bookmarks.create({
-                  title: item.title || item.url,
-                  url: item.url,
-                  parentId,
-                  index,
-                })
-              : await this.bookmarks.create({
-                  title: item.title,
-                  parentId,
-                  index,
-                });
+              ? await this.bookmarks.create(
+                  {
+                    title: item.title || item.url,
+                    url: item.url,
+                    parentId,
+                    index,
+                  },
+                  txn,
+                )
+              : await this.bookmarks.create(
+                  {title: item.title, parentId, index},
+                  txn,
+                );
+
+          const container = this.containerFor(item);
+          if (container !== undefined) {
+            this.bookmark_metadata.setContainer(node.id, container);
+          }
 
           if ("children" in item) {
             let idx = 0;
             for (const c of item.children) {
               if (typeof c === "string") {
-                await this.bookmarks.move(c, node.id, idx);
+                await this.bookmarks.move(c, node.id, idx, txn);
               } else {
                 await createTree(c, node.id, idx);
               }
@@ -657,9 +1346,18 @@ export class Model {
       );
     }
 
+    // If the folder is supposed to be kept sorted, move the new items into
+    // their proper places.
+    await this.bookmark_metadata.load([to_folder.id]);
+    const keep_sorted = this.bookmark_metadata.get(to_folder.id).value
+      ?.keep_sorted;
+    if (keep_sorted) {
+      await this.sortFolder({folderId: to_folder.id, by: keep_sorted, txn});
+    }
+
     // Hide/close any tabs which were moved from, since they are now
     // (presumably) in the stash.
-    await this.hideOrCloseStashedTabs(close_tab_ids);
+    await this.hideOrCloseStashedTabs(close_tab_ids, txn);
 
     return moved_items;
   }
@@ -683,7 +1381,32 @@ export class Model {
     toWindowId?: Tabs.WindowID;
     toIndex?: number;
     task?: TaskMonitor;
+    txn?: Journal.Transaction;
   }): Promise<Tabs.Tab[]> {
+    // Only moving items out of the stash is interesting for the activity log;
+    // restoring copies is logged by restoreTabs() and friends.
+    const restoring = options.items.filter(isNode);
+    const origin = this.describeOrigin(restoring);
+
+    const moved = await this.journal.transaction(
+      describePut(options.items, "window"),
+      txn => this._putItemsInWindow(options, txn),
+      options.txn,
+    );
+
+    if (!options.txn && restoring.length > 0) {
+      await this.activity_log.log(
+        "restore",
+        `restored ${describeItems(restoring)}${origin}`,
+      );
+    }
+    return moved;
+  }
+
+  private async _putItemsInWindow(
+    options: Parameters<Model["putItemsInWindow"]>[0],
+    txn: Journal.Transaction,
+  ): Promise<Tabs.Tab[]> {
     const to_win_id = options.toWindowId ?? this.tabs.targetWindow.value;
     if (to_win_id === undefined) {
       throw new Error(`No target window available: ${to_win_id}`);
@@ -695,6 +1418,11 @@ export class Model {
 
     const items = options.items;
 
+    // We need bookmark metadata to know which containers to restore into.
+    await this.bookmark_metadata.load(
+      filterMap(items, i => (isBookmark(i) ? i.id : undefined)),
+    );
+
     // We want to know what tabs were recently closed, so we can
     // restore/un-hide tabs as appropriate.
     //
@@ -729,6 +1457,7 @@ export class Model {
     // Now, we move/restore tabs.
     const moved_items: Tabs.Tab[] = [];
     const delete_bm_ids: Bookmarks.Bookmark[] = [];
+    let missing_container_tabs = 0;
 
     for (
       let i = 0, to_index = options.toIndex ?? win.tabs.length;
@@ -743,7 +1472,7 @@ export class Model {
       // If the item we're moving is a tab, just move it into place.
       if (model_item && isTab(model_item)) {
         const pos = this.tabs.positionOf(model_item);
-        await this.tabs.move(model_item.id, to_win_id, to_index);
+        await this.tabs.move(model_item.id, to_win_id, to_index, txn);
         moved_items.push(model_item);
         dont_steal_tabs.add(model_item.id);
 
@@ -774,6 +1503,20 @@ export class Model {
       }
       const url = item.url;
 
+      // Figure out which container the tab belongs in.  If the container it
+      // was stashed from has since been deleted, we have no choice but to fall
+      // back to the default container, but we let the user know about it.
+      let container =
+        model_item && isBookmark(model_item)
+          ? this.bookmark_metadata.get(model_item.id).value?.container
+          : isNewTab(item)
+          ? item.cookieStoreId
+          : undefined;
+      if (container !== undefined && !this.containers.container(container)) {
+        ++missing_container_tabs;
+        container = undefined;
+      }
+
       // First let's see if we have another tab we can just "steal"--that
       // is, move into place to represent the source item (which,
       // remember, is NOT ITSELF A TAB).
@@ -786,6 +1529,7 @@ export class Model {
           t =>
             !dont_steal_tabs.has(t.id) &&
             !t.pinned &&
+            (container === undefined || t.cookieStoreId === container) &&
             (t.hidden || t.windowId === to_win_id),
         )
         .sort((a, b) => -a.hidden - -b.hidden); // prefer hidden tabs
@@ -799,8 +1543,8 @@ export class Model {
         // If we show and then move, it will briefly appear in a random
         // location before moving to the desired location, so doing the
         // move first reduces flickering in the UI.
-        await this.tabs.move(t.id, to_win_id, to_index);
-        if (t.hidden && !!browser.tabs.show) await browser.tabs.show(t.id);
+        await this.tabs.move(t.id, to_win_id, to_index, txn);
+        if (t.hidden && !!browser.tabs.show) await this.showTab(t.id, txn);
 
         // console.log('new layout:', this.tabs.window(t.windowId)?.tabs);
 
@@ -845,67 +1589,118 @@ export class Model {
       }
 
       // Else we just need to create a completely new tab.
-      const tab = await this.tabs.create({
-        active: false,
-        discarded: this.options.local.state.load_tabs_on_restore === "lazily",
-        title: item.title,
-        url: urlToOpen(url),
-        windowId: to_win_id,
-        index: to_index,
-      });
+      const tab = await this.tabs.create(
+        {
+          active: false,
+          discarded: this.options.local.state.load_tabs_on_restore === "lazily",
+          title: item.title,
+          url: urlToOpen(url),
+          windowId: to_win_id,
+          index: to_index,
+          ...(container !== undefined ? {cookieStoreId: container} : {}),
+        },
+        txn,
+      );
       moved_items.push(tab);
       dont_steal_tabs.add(tab.id);
       await this.tabs.setSelected([tab], isModelItem(item) && item.$selected);
       // console.log('created new tab', tab);
     }
 
+    if (missing_container_tabs > 0) {
+      // This is kept in local options (rather than in the model) so the
+      // warning is shown even if the tabs were restored in the background
+      // (e.g. because they woke up from being snoozed).
+      await this.options.local.set({
+        missing_container_tabs:
+          this.options.local.state.missing_container_tabs +
+          missing_container_tabs,
+      });
+    }
+
     // Delete bookmarks for all the tabs we restored.  We use the same
     // timestamp for each deleted item so that we can guarantee the deleted
     // items are sorted in the same order they were listed in the stash
     // (which makes it easier for users to find things).
+    //
+    // The bookmarks are deleted one at a time, so each one remembers where it
+    // was after the ones before it are gone, and undo puts them back in the
+    // right order.
     const now = new Date();
-    await Promise.all(delete_bm_ids.map(bm => this.deleteBookmark(bm, now)));
+    for (const bm of delete_bm_ids) await this.deleteBookmark(bm, now, txn);
     if (options.task) ++options.task.value;
 
     return moved_items;
   }
 
   /** Deletes the specified items (bookmark nodes or tabs), saving any deleted
-   * bookmarks to the deleted-items model. */
-  async deleteItems(ids: Iterable<Bookmarks.NodeID | Tabs.TabID>) {
+   * bookmarks to the deleted-items model.  This is a single undoable
+   * operation, unless it's part of `txn`. */
+  async deleteItems(
+    ids: Iterable<Bookmarks.NodeID | Tabs.TabID>,
+    txn?: Journal.Transaction,
+  ) {
     const now = new Date();
-    const tabs = [];
+    const tabs: Tabs.TabID[] = [];
+    const nodes: Bookmarks.Node[] = [];
     for (const id of ids) {
       if (typeof id === "string") {
         // It's a bookmark
         const node = this.bookmarks.node(id);
-        if (!node) continue;
-
-        if ("children" in node) {
-          await this.deleteBookmarkTree(id, now);
-        } else if ("url" in node) {
-          await this.deleteBookmark(node, now);
-        } else {
-          // separator
-          await this.bookmarks.remove(id);
-        }
+        if (node) nodes.push(node);
       } else {
         tabs.push(id);
       }
     }
+    const description =
+      `deleted ${describeItems(nodes)}` + this.describeOrigin(nodes);
+
+    await this.journal.transaction(
+      nodes.length > 0
+        ? description
+        : `closed ${describeItems(filterMap(tabs, id => this.tabs.tab(id)))}`,
+      async txn => {
+        for (const node of nodes) {
+          // It may have been deleted already along with its parent.
+          if (!this.bookmarks.node(node.id)) continue;
+
+          if ("children" in node) {
+            await this.deleteBookmarkTree(node.id, now, txn);
+          } else if ("url" in node) {
+            await this.deleteBookmark(node, now, txn);
+          } else {
+            // separator
+            await this.bookmarks.remove(node.id, txn);
+          }
+        }
+        if (tabs.length > 0) await this.tabs.remove(tabs, txn);
+      },
+      txn,
+    );
 
-    await this.tabs.remove(tabs);
+    if (nodes.length > 0 && !txn) {
+      await this.activity_log.log("delete", description);
+    }
   }
 
   /** Deletes the specified bookmark subtree, saving it to deleted items.  You
    * should use {@link deleteBookmark()} for individual bookmarks, because it
    * will cleanup the parent folder if the parent folder has a "default" name
    * and would be empty. */
-  async deleteBookmarkTree(id: Bookmarks.NodeID, deleted_at?: Date) {
+  async deleteBookmarkTree(
+    id: Bookmarks.NodeID,
+    deleted_at?: Date,
+    txn?: Journal.Transaction,
+  ) {
     const bm = this.bookmarks.node(id);
     if (!bm) return; // Already deleted?
 
+    // The IDs of everything we're deleting, in the same order they appear in
+    // the deleted item.
+    const ids: Bookmarks.NodeID[] = [];
+
     const toDelItem = (item: Bookmarks.Node): DeletedItems.DeletedItem => {
+      ids.push(item.id);
       if ("children" in item)
         return {
           title: item.title,
@@ -926,14 +1721,73 @@ export class Model {
       return {title: "", url: ""};
     };
 
-    await this.deleted_items.add(toDelItem(bm), undefined, deleted_at);
+    // If we're part of an undoable operation (`txn`), undoing it should put
+    // back the folder (and anything still in it) where it was, and take it
+    // back out of deleted items.
+    const j = this.journal;
+    const pos = this.bookmarks.positionOf(bm);
+    const snapshot = toDelItem(bm);
+    const md = this.bookmark_metadata.get(bm.id).value;
+
+    let key = (await this.deleted_items.add(snapshot, undefined, deleted_at))
+      .key;
     await this.bookmarks.removeTree(bm.id);
+
+    if (!pos) return;
+    j.record(txn, {
+      undo: async () => {
+        const created = await this.recreateTree(
+          snapshot,
+          j.resolve(pos.parent.id),
+          pos.index,
+        );
+        created.forEach((n, i) => j.remap(j.resolve(ids[i]), n.id));
+        if (md) this.bookmark_metadata.set(created[0].id, md);
+        await this.deleted_items.drop(key);
+      },
+      redo: async () => {
+        key = (await this.deleted_items.add(snapshot, undefined, deleted_at))
+          .key;
+        await this.bookmarks.removeTree(j.resolve(bm.id));
+      },
+    });
+  }
+
+  /** Re-creates a deleted tree of bookmarks, returning the new nodes in the
+   * order they appear in the tree (parents before their children). */
+  private async recreateTree(
+    item: DeletedItems.DeletedItem,
+    parentId: Bookmarks.NodeID,
+    index?: number,
+  ): Promise<Bookmarks.Node[]> {
+    const node = await this.bookmarks.create(
+      "url" in item && !item.url
+        ? {parentId, index, type: "separator"}
+        : {
+            parentId,
+            index,
+            title: item.title,
+            ...("url" in item ? {url: item.url} : {}),
+          },
+    );
+    const created = [node];
+    if ("children" in item) {
+      for (const c of item.children) {
+        created.push(...(await this.recreateTree(c, node.id)));
+      }
+    }
+    return created;
   }
 
   /** Deletes the specified bookmark, saving it to deleted items.  If it was
    * the last bookmark in its parent folder, AND the parent folder has a
-   * "default" name, removes the parent folder as well. */
-  async deleteBookmark(bm: Bookmarks.Bookmark, deleted_at?: Date) {
+   * "default" name, removes the parent folder as well.  The deletion is
+   * recorded as part of `txn`, if it's given. */
+  async deleteBookmark(
+    bm: Bookmarks.Bookmark,
+    deleted_at?: Date,
+    txn?: Journal.Transaction,
+  ) {
     const parent = this.bookmarks.folder(bm.parentId!);
 
     await this.deleted_items.add(
@@ -951,7 +1805,20 @@ export class Model {
       deleted_at,
     );
 
-    await this.bookmarks.remove(bm.id);
+    await this.bookmarks.remove(bm.id, txn);
+  }
+
+  /** Resolves duplicates by deleting every other bookmark in the stash with
+   * the same URL as `keep`.  The deleted copies are saved to deleted items.
+   * Returns the deleted copies. */
+  async keepOnlyBookmark(
+    keep: Bookmarks.Bookmark,
+  ): Promise<Bookmarks.Bookmark[]> {
+    const copies = Array.from(this.bookmarks.bookmarksWithURL(keep.url)).filter(
+      bm => bm.id !== keep.id && this.bookmarks.isNodeInStashRoot(bm),
+    );
+    await this.deleteItems(copies.map(bm => bm.id));
+    return copies;
   }
 
   /** Un-delete a deleted item, or part of a deleted item if `path' is
@@ -960,8 +1827,23 @@ export class Model {
   async undelete(
     deletion: DeletedItems.Deletion,
     path?: number[],
+  ): Promise<void> {
+    const item = DeletedItems.findChildItem(deletion.item, path).child;
+    await this.operation(
+      "restore",
+      `restored "${Bookmarks.friendlyFolderName(item.title)}" from ` +
+        `deleted items`,
+      txn => this._undelete(deletion, path, txn),
+    );
+  }
+
+  private async _undelete(
+    deletion: DeletedItems.Deletion,
+    path: number[] | undefined,
+    txn: Journal.Transaction,
   ): Promise<void> {
     const di = this.deleted_items;
+    const j = this.journal;
 
     // We optimistically remove immediately from recentlyDeleted to prevent
     // users from trying to un-delete the same thing multiple times.
@@ -1001,7 +1883,7 @@ export class Model {
     // put it in an unnamed folder.
     if (!toFolderId) {
       if (!("children" in item)) {
-        toFolderId = (await this.ensureRecentUnnamedFolder()).id;
+        toFolderId = (await this.ensureRecentUnnamedFolder(txn)).id;
       } else {
         // We're restoring a folder, and we don't know where to put it; just put
         // it in the stash root.
@@ -1011,7 +1893,7 @@ export class Model {
     }
 
     // Restore the deleted item.
-    await this.putItemsInFolder({items: [item], toFolderId, toIndex});
+    await this.putItemsInFolder({items: [item], toFolderId, toIndex, txn});
 
     // Restore any favicons.
     const restoreFavicons = (item: DeletedItems.DeletedItem) => {
@@ -1024,8 +1906,505 @@ export class Model {
     };
     restoreFavicons(item);
 
-    // Remove the item we just restored.
+    // Remove the item we just restored.  If this is undone, the item goes
+    // back into deleted items (as a deletion of its own).
     await di.drop(deletion.key, path);
+    let key = deletion.key;
+    j.record(txn, {
+      undo: async () => {
+        key = (await di.add(item, deletion.deleted_from, deletion.deleted_at))
+          .key;
+      },
+      redo: () => di.drop(key),
+    });
+  }
+
+  /** Snooze items until the time `until` (in milliseconds since the epoch),
+   * at which point `wakeSnoozedItems()` will re-open them.  Open tabs are
+   * stashed first (in the same place as any other single stashed tab);
+   * bookmarks and folders are left where they are. */
+  async snoozeItems(items: ModelItem[], until: number) {
+    await this.operation(
+      "snooze",
+      `snoozed ${describeItems(items)}`,
+      async txn => {
+        const nodes: Bookmarks.Node[] = [];
+        for (const item of items) {
+          if (isTab(item)) {
+            nodes.push(await this.stashTab(item, {txn}));
+          } else {
+            nodes.push(item);
+          }
+        }
+
+        for (const n of nodes) {
+          if (Bookmarks.isSeparator(n)) continue;
+          await this.setSnoozedUntil(n.id, until, txn);
+        }
+      },
+    );
+  }
+
+  /** Snooze (or un-snooze) a node, recording the change as part of `txn`. */
+  private async setSnoozedUntil(
+    id: Bookmarks.NodeID,
+    until: number | undefined,
+    txn: Journal.Transaction,
+  ) {
+    const j = this.journal;
+    const md = this.bookmark_metadata;
+    await md.load([id]);
+    const prev = md.get(id).value?.snoozed_until;
+    await md.setSnoozedUntil(id, until);
+    j.record(txn, {
+      undo: () => md.setSnoozedUntil(j.resolve(id), prev),
+      redo: () => md.setSnoozedUntil(j.resolve(id), until),
+    });
+  }
+
+  /** Re-open any snoozed items which are due to wake up, and returns the time
+   * at which the next snoozed item should wake up (if any).  Items stay in the
+   * stash after they are re-opened. */
+  async wakeSnoozedItems(
+    now: number = Date.now(),
+  ): Promise<number | undefined> {
+    for (const {id, until} of await this.bookmark_metadata.snoozedItems()) {
+      if (until > now) return until;
+
+      const node = this.bookmarks.node(id);
+      const items = !node
+        ? []
+        : Bookmarks.isFolder(node)
+        ? this.bookmarks.childrenOf(node).filter(Bookmarks.isBookmark)
+        : Bookmarks.isBookmark(node)
+        ? [node]
+        : [];
+      if (items.length > 0) await this.restoreTabs(items, {background: true});
+
+      await this.bookmark_metadata.setSnoozedUntil(id, undefined);
+    }
+    return undefined;
+  }
+
+  /** Move a folder into the archive (creating the archive root if needed).
+   * Archived folders are kept in the archive newest-first, and are no longer
+   * considered part of the stash--so any hidden tabs which belong to them will
+   * be closed. */
+  async archiveFolder(
+    folderId: Bookmarks.NodeID,
+    txn?: Journal.Transaction,
+  ): Promise<void> {
+    const folder = expect(
+      this.bookmarks.folder(folderId),
+      () => `No such folder: ${folderId}`,
+    );
+    if (this.bookmarks.isNodeInArchive(folder)) return;
+
+    const stash_root = this.bookmarks.stash_root.value;
+    if (stash_root && this.bookmarks.isNodeInFolder(stash_root, folder.id)) {
+      throw new UserError(`The stash itself can't be archived.`);
+    }
+
+    await this.operation(
+      "archive",
+      `archived "${Bookmarks.friendlyFolderName(folder.title)}"`,
+      async txn => {
+        const archive_root = await this.bookmarks.ensureArchiveRoot();
+        await this.bookmarks.move(folder.id, archive_root.id, 0, txn);
+      },
+      txn,
+    );
+  }
+
+  /** Move a folder out of the archive and back to the top of the stash. */
+  async unarchiveFolder(folderId: Bookmarks.NodeID): Promise<void> {
+    const folder = expect(
+      this.bookmarks.folder(folderId),
+      () => `No such folder: ${folderId}`,
+    );
+    if (!this.bookmarks.isNodeInArchive(folder)) {
+      throw new UserError(
+        `Only archived groups can be moved out of the archive.`,
+      );
+    }
+
+    await this.operation(
+      "archive",
+      `unarchived "${Bookmarks.friendlyFolderName(folder.title)}"`,
+      async txn => {
+        const stash_root = await this.bookmarks.ensureStashRoot();
+        await this.bookmarks.move(folder.id, stash_root.id, 0, txn);
+      },
+    );
+  }
+
+  /** Returns the bookmarks and folders in the stash which haven't been
+   * opened (or added) since `before` (in milliseconds since the epoch),
+   * least-recently-used first.  A bookmark was last used when it was last
+   * opened (see markOpened()), or when it was added if it has never been
+   * opened.  Folders were last used when anything inside them was.
+   *
+   * If everything in a folder is stale, only the folder itself is returned,
+   * not its contents. */
+  async staleItems(before: number): Promise<StaleItem[]> {
+    const stash_root = this.bookmarks.stash_root.value;
+    if (!stash_root) return [];
+
+    await this.bookmark_metadata.load(
+      this.bookmarks.bookmarksInFolder(stash_root).map(bm => bm.id),
+    );
+
+    const stale: StaleItem[] = [];
+
+    // Returns when the node was last used, adding stale descendants of
+    // non-stale folders to `stale` along the way.
+    const visit = (node: Bookmarks.Node): number | undefined => {
+      if (Bookmarks.isBookmark(node)) {
+        return (
+          this.bookmark_metadata.get(node.id).value?.last_opened ??
+          node.dateAdded
+        );
+      }
+      if (!Bookmarks.isFolder(node)) return undefined;
+
+      const children: StaleItem[] = [];
+      let last_used = node.dateAdded;
+      for (const c of this.bookmarks.childrenOf(node)) {
+        if (!Bookmarks.isBookmark(c) && !Bookmarks.isFolder(c)) continue;
+        const used = visit(c);
+        if (used !== undefined && (last_used ?? 0) < used) last_used = used;
+        if ((used ?? 0) < before) children.push({node: c, last_used: used});
+      }
+
+      // If the folder is stale, its caller will report the folder as a whole;
+      // otherwise we report whichever of its children are stale.
+      if ((last_used ?? 0) >= before || node === stash_root) {
+        stale.push(...children);
+      }
+      return last_used;
+    };
+    visit(stash_root);
+
+    return stale.sort((a, b) => (a.last_used ?? 0) - (b.last_used ?? 0));
+  }
+
+  /** Moves bookmarks and folders out of the stash and into the archive.
+   * Folders are archived as they are (see archiveFolder()); bookmarks are
+   * gathered together into a single new folder in the archive. */
+  async archiveItems(ids: Iterable<Bookmarks.NodeID>): Promise<void> {
+    const nodes = filterMap(Array.from(ids), id => this.bookmarks.node(id));
+    await this.journal.transaction(
+      `archived ${describeItems(nodes)}`,
+      async txn => {
+        const bookmarks: Bookmarks.Bookmark[] = [];
+        for (const node of nodes) {
+          if (Bookmarks.isBookmark(node)) bookmarks.push(node);
+          if (!Bookmarks.isFolder(node)) continue;
+          if (this.bookmarks.isNodeInArchive(node)) continue;
+
+          // archiveFolder() doesn't log anything when it's part of `txn`.
+          await this.archiveFolder(node.id, txn);
+          await this.activity_log.log(
+            "archive",
+            `archived "${Bookmarks.friendlyFolderName(node.title)}"`,
+          );
+        }
+        if (bookmarks.length === 0) return;
+
+        const archive_root = await this.bookmarks.ensureArchiveRoot();
+        const folder = await this.bookmarks.createStashFolder(
+          undefined,
+          archive_root.id,
+          "top",
+          txn,
+        );
+        await this.putItemsInFolder({
+          items: bookmarks,
+          toFolderId: folder.id,
+          txn,
+        });
+        await this.activity_log.log(
+          "archive",
+          `archived ${describeItems(bookmarks)} into ` +
+            `"${Bookmarks.friendlyFolderName(folder.title)}"`,
+        );
+      },
+    );
+  }
+
+  /** Returns the bookmarks in `folderId` (or the whole stash) which
+   * redirected somewhere else the last time their links were checked (see
+   * tasks/check-links.ts), along with where they redirected to, so the user
+   * can review them before calling `updateRedirectedLinks()`. */
+  async redirectedLinks(
+    folderId?: Bookmarks.NodeID,
+  ): Promise<RedirectedLink[]> {
+    return filterMap(await this.linkCheckedBookmarks(folderId), bookmark => {
+      const check = this.currentLinkCheck(bookmark);
+      if (check?.status !== "redirected" || !check.final_url) return undefined;
+      return {bookmark, final_url: check.final_url};
+    });
+  }
+
+  /** Points each of the `links` (see `redirectedLinks()`) at the URL it
+   * redirected to, as a single operation which can be undone.  Links which
+   * were changed or deleted in the meantime are left alone.  Returns the
+   * bookmarks which were updated. */
+  async updateRedirectedLinks(
+    links: readonly RedirectedLink[],
+  ): Promise<Bookmarks.Bookmark[]> {
+    const todo = links.filter(({bookmark, final_url}) => {
+      const bm = this.bookmarks.bookmark(bookmark.id);
+      return bm && this.currentLinkCheck(bm)?.final_url === final_url;
+    });
+    if (todo.length === 0) return [];
+
+    return await this.operation(
+      "rename",
+      `updated the URLs of ${describeItems(todo.map(l => l.bookmark))}`,
+      async txn => {
+        const updated = [];
+        for (const {bookmark, final_url} of todo) {
+          const check = this.currentLinkCheck(bookmark)!;
+          await this.bookmarks.setURL(bookmark, final_url, txn);
+          // The site did load at the new URL, so the link is no longer
+          // redirected.
+          this.bookmark_metadata.setLinkCheck(bookmark.id, {
+            status: "alive",
+            url: final_url,
+            checked_at: check.checked_at,
+          });
+          updated.push(bookmark);
+        }
+        return updated;
+      },
+    );
+  }
+
+  /** Returns the bookmarks in `folderId` (or the whole stash) which couldn't
+   * be loaded at all the last time their links were checked (see
+   * tasks/check-links.ts), so the user can review them before calling
+   * `deleteDeadLinks()`.  Sites which merely took too long to load are not
+   * included, since they may just be slow. */
+  async deadLinks(folderId?: Bookmarks.NodeID): Promise<Bookmarks.Bookmark[]> {
+    return (await this.linkCheckedBookmarks(folderId)).filter(
+      bm => this.currentLinkCheck(bm)?.status === "error",
+    );
+  }
+
+  /** Deletes the dead `bookmarks` (see `deadLinks()`), saving them to deleted
+   * items as usual.  Bookmarks which were changed in the meantime (so they
+   * may not be dead anymore) are left alone.  Returns the bookmarks which
+   * were deleted. */
+  async deleteDeadLinks(
+    bookmarks: readonly Bookmarks.Bookmark[],
+  ): Promise<Bookmarks.Bookmark[]> {
+    const dead = filterMap(bookmarks, bm => {
+      const cur = this.bookmarks.bookmark(bm.id);
+      if (this.currentLinkCheck(cur)?.status !== "error") return undefined;
+      return cur;
+    });
+    await this.deleteItems(dead.map(bm => bm.id));
+    return dead;
+  }
+
+  /** Returns the result of the last time a bookmark's link was checked, if
+   * it still applies (i.e. the bookmark's URL hasn't changed since). */
+  currentLinkCheck(
+    bm: Bookmarks.Bookmark | undefined,
+  ): BookmarkMetadata.LinkCheck | undefined {
+    if (!bm) return undefined;
+    const check = this.bookmark_metadata.get(bm.id).value?.link_check;
+    return BookmarkMetadata.isLinkCheckCurrent(check, bm.url)
+      ? check
+      : undefined;
+  }
+
+  /** Returns the bookmarks in `folderId` (or the whole stash), making sure
+   * their metadata is loaded so their link-check results can be read. */
+  private async linkCheckedBookmarks(
+    folderId?: Bookmarks.NodeID,
+  ): Promise<Bookmarks.Bookmark[]> {
+    const folder =
+      folderId !== undefined
+        ? this.bookmarks.folder(folderId)
+        : this.bookmarks.stash_root.value;
+    if (!folder) return [];
+
+    const bookmarks = this.bookmarks.bookmarksInFolder(folder);
+    await this.bookmark_metadata.load(bookmarks.map(bm => bm.id));
+    return bookmarks;
+  }
+
+  /** Sorts the contents of a folder, moving children into place one at a
+   * time with `Bookmarks.Model.move()`.  Titles and domains are sorted A-Z;
+   * dates are sorted newest first.  Children which have nothing to sort by
+   * (e.g. sub-folders when sorting by domain) are left at the end, in the
+   * order they were in before. */
+  async sortFolder(options: {
+    folderId: Bookmarks.NodeID;
+    by: BookmarkMetadata.SortOrder;
+    task?: TaskMonitor;
+    txn?: Journal.Transaction;
+  }): Promise<void> {
+    const folder = expect(
+      this.bookmarks.folder(options.folderId),
+      () => `Folder to sort does not exist: ${options.folderId}`,
+    );
+    const task = options.task;
+
+    const keyOf = this.sortKeyFn(options.by);
+    const sorted = this.bookmarks
+      .childrenOf(folder)
+      .map((node, index) => ({node, index, key: keyOf(node)}))
+      .sort(compareSortKeys)
+      .map(k => k.node);
+
+    if (task) {
+      task.status = `Sorting "${Bookmarks.friendlyFolderName(
+        folder.title,
+      )}"...`;
+      task.max = sorted.length;
+    }
+
+    await this.operation(
+      "move",
+      `sorted "${Bookmarks.friendlyFolderName(folder.title)}"`,
+      async txn => {
+        for (let i = 0; i < sorted.length; ++i) {
+          if (task?.cancelled) break;
+          if (folder.children[i] !== sorted[i].id) {
+            await this.bookmarks.move(sorted[i].id, folder.id, i, txn);
+          }
+          if (task) ++task.value;
+        }
+      },
+      options.txn,
+    );
+  }
+
+  /** Proposes how to split up the bookmarks in a folder into child folders,
+   * either by domain (in alphabetical order) or by the day each bookmark was
+   * added (newest first).  Nothing is moved; pass the result (or a subset of
+   * it) to `splitFolder()` to actually do the split.  Sub-folders are left
+   * alone. */
+  planFolderSplit(
+    folder: Bookmarks.Folder,
+    by: FolderSplitOrder,
+  ): FolderSplitGroup[] {
+    const groups = new Map<string, FolderSplitGroup>();
+    for (const bm of this.bookmarks
+      .childrenOf(folder)
+      .filter(Bookmarks.isBookmark)) {
+      let key: string;
+      if (by === "domain") {
+        key = hostnameOf(bm.url) ?? "";
+      } else if (bm.dateAdded !== undefined) {
+        const d = new Date(bm.dateAdded);
+        key = [d.getFullYear(), d.getMonth() + 1, d.getDate()]
+          .map(n => `${n}`.padStart(2, "0"))
+          .join("-");
+      } else {
+        key = "";
+      }
+
+      let group = groups.get(key);
+      if (!group) {
+        group = {
+          title: key || (by === "domain" ? "Other Sites" : "Unknown Date"),
+          bookmarks: [],
+        };
+        groups.set(key, group);
+      }
+      group.bookmarks.push(bm);
+    }
+
+    // Keep the catch-all group (if any) at the end.
+    const keys = Array.from(groups.keys())
+      .filter(k => k !== "")
+      .sort();
+    if (by === "day") keys.reverse();
+    if (groups.has("")) keys.push("");
+    return keys.map(k => groups.get(k)!);
+  }
+
+  /** Splits a folder up by moving each group of bookmarks (as proposed by
+   * `planFolderSplit()`) into a new child folder at the end of the folder.
+   * Returns the new child folders. */
+  async splitFolder(options: {
+    folderId: Bookmarks.NodeID;
+    groups: FolderSplitGroup[];
+    task?: TaskMonitor;
+  }): Promise<Bookmarks.Folder[]> {
+    const folder = expect(
+      this.bookmarks.folder(options.folderId),
+      () => `Folder to split does not exist: ${options.folderId}`,
+    );
+    const task = options.task;
+    if (task) task.max = options.groups.length;
+
+    return await this.operation(
+      "move",
+      `split "${Bookmarks.friendlyFolderName(folder.title)}"`,
+      async txn => {
+        const created: Bookmarks.Folder[] = [];
+        for (const group of options.groups) {
+          if (task?.cancelled) break;
+          if (task) task.status = `Moving tabs to "${group.title}"...`;
+
+          const child = (await this.bookmarks.create(
+            {parentId: folder.id, title: group.title},
+            txn,
+          )) as Bookmarks.Folder;
+          created.push(child);
+
+          const move = (tm?: TaskMonitor) =>
+            this.putItemsInFolder({
+              items: group.bookmarks,
+              toFolderId: child.id,
+              task: tm,
+              txn,
+            });
+          if (task) await task.spawn(move);
+          else await move();
+        }
+        return created;
+      },
+    );
+  }
+
+  /** Returns a function which computes the key to sort a node by. */
+  private sortKeyFn(
+    by: BookmarkMetadata.SortOrder,
+  ): (node: Bookmarks.Node) => SortKey {
+    switch (by) {
+      case "title":
+        return node =>
+          Bookmarks.isFolder(node)
+            ? Bookmarks.friendlyFolderName(node.title)
+            : node.title || undefined;
+
+      case "domain":
+        return node =>
+          Bookmarks.isBookmark(node) ? hostnameOf(node.url) : undefined;
+
+      case "date_added":
+        return node =>
+          node.dateAdded !== undefined ? -node.dateAdded : undefined;
+
+      case "last_visited":
+        // We only know when a bookmark was last visited if it's (still) open
+        // in a tab somewhere, possibly hidden.
+        return node => {
+          if (!Bookmarks.isBookmark(node)) return undefined;
+          let at: number | undefined;
+          for (const t of this.tabs.tabsWithURL(node.url)) {
+            if (t.lastAccessed === undefined) continue;
+            at = Math.max(at ?? 0, t.lastAccessed);
+          }
+          return at !== undefined ? -at : undefined;
+        };
+    }
   }
 
   //
@@ -1040,16 +2419,27 @@ export class Model {
 
   /** Given a set of stash items, transform them such that passing them to a
    * put*() model method will copy them instead of moving them, leaving the
-   * original sources untouched. */
+   * original sources untouched.
+   *
+   * Copies remember which container their originals were in, but only if the
+   * bookmark metadata is already loaded; see copyingWithContainers(). */
   copying(items: StashItem[]): (NewTab | NewFolder)[] {
     return filterMap(items, item => {
       if (isNewItem(item)) return item;
 
-      if (isTab(item)) return {title: item.title, url: item.url};
+      if (isTab(item)) {
+        return withContainer(
+          {title: item.title, url: item.url},
+          this.containerFor(item),
+        );
+      }
 
       if (isNode(item)) {
         if (Bookmarks.isBookmark(item)) {
-          return {title: item.title, url: item.url};
+          return withContainer(
+            {title: item.title, url: item.url},
+            this.bookmark_metadata.get(item.id).value?.container,
+          );
         }
         if (Bookmarks.isFolder(item)) {
           return {
@@ -1061,8 +2451,78 @@ export class Model {
       }
     });
   }
+
+  /** Like copying(), but first loads the bookmark metadata needed to restore
+   * the copies into the same containers as the originals. */
+  async copyingWithContainers(
+    items: StashItem[],
+  ): Promise<(NewTab | NewFolder)[]> {
+    await this.bookmark_metadata.load(
+      filterMap(items, i => (isBookmark(i) ? i.id : undefined)),
+    );
+    return this.copying(items);
+  }
+
+  /** Returns the container a tab (or copy of a tab) is in, if it's in a
+   * container which exists (i.e. not the default or private container). */
+  private containerFor(item: StashItem): string | undefined {
+    const id = isTab(item) || isNewTab(item) ? item.cookieStoreId : undefined;
+    return id !== undefined && this.containers.container(id) ? id : undefined;
+  }
 }
 
+/** Adds the container to a copy of a tab, if there is one to add. */
+function withContainer(tab: NewTab, cookieStoreId: string | undefined): NewTab {
+  return cookieStoreId !== undefined ? {...tab, cookieStoreId} : tab;
+}
+
+/** Describes a list of items for the journal, e.g. "3 tabs". */
+function describeItems(items: StashItem[]): string {
+  const noun = items.every(i => "url" in i) ? "tab" : "item";
+  return `${items.length} ${noun}${items.length === 1 ? "" : "s"}`;
+}
+
+/** Describes putting items into a folder or window for the journal, e.g.
+ * "stashed 3 tabs" or "copied 2 items". */
+function describePut(items: StashItem[], into: "folder" | "window"): string {
+  let verb: string;
+  if (into === "window") verb = items.every(isTab) ? "moved" : "restored";
+  else if (items.some(isTab)) verb = "stashed";
+  else verb = items.every(isModelItem) ? "moved" : "copied";
+  return `${verb} ${describeItems(items)}`;
+}
+
+/** A bookmark which redirected somewhere else when its link was checked (see
+ * `Model.redirectedLinks()`). */
+export type RedirectedLink = {
+  bookmark: Bookmarks.Bookmark;
+  final_url: string;
+};
+
+/** The kind of activity it is to put items into a folder (see
+ * describePut()). */
+function putActivity(items: StashItem[]): ActivityLog.ActivityType {
+  return items.some(isTab) || !items.every(isModelItem) ? "stash" : "move";
+}
+
+/** How `Model.planFolderSplit()` should group bookmarks. */
+export type FolderSplitOrder = "domain" | "day";
+
+/** A proposed child folder, and the bookmarks that should be moved into it. */
+export type FolderSplitGroup = {
+  title: string;
+  bookmarks: Bookmarks.Bookmark[];
+};
+
+/** A bookmark or folder which hasn't been used in a while (see
+ * `Model.staleItems()`). */
+export type StaleItem = {
+  node: Bookmarks.Bookmark | Bookmarks.Folder;
+  /** When the item was last opened (or added), in milliseconds since the
+   * epoch, if we know. */
+  last_used: number | undefined;
+};
+
 export type BookmarkTabsResult = {
   savedItems: StashItem[];
   bookmarks: Bookmarks.Node[];
@@ -1073,6 +2533,59 @@ export type BookmarkTabsResult = {
 // Private helper functions
 //
 
+/** Returns the hostname (minus any leading "www.") which more than half of the
+ * `urls` are pointing to, if there is one. */
+function dominantDomain(urls: string[]): string | undefined {
+  const counts = new Map<string, number>();
+  for (const url of urls) {
+    const host = new URL(url).hostname.replace(/^www\./, "");
+    if (!host) continue;
+    counts.set(host, (counts.get(host) ?? 0) + 1);
+  }
+  for (const [host, count] of counts) {
+    if (count > urls.length / 2) return host;
+  }
+  return undefined;
+}
+
+/** Something a folder's children can be sorted by (see `Model.sortFolder()`);
+ * `undefined` means the child has no key and goes at the end. */
+type SortKey = string | number | undefined;
+
+/** Compares children of a folder by their sort keys, falling back to their
+ * original position so the sort is stable. */
+function compareSortKeys(
+  a: {key: SortKey; index: number},
+  b: {key: SortKey; index: number},
+): number {
+  if (a.key !== b.key) {
+    if (a.key === undefined) return 1;
+    if (b.key === undefined) return -1;
+    const c =
+      typeof a.key === "string" && typeof b.key === "string"
+        ? a.key.localeCompare(b.key, undefined, {
+            sensitivity: "base",
+            numeric: true,
+          })
+        : a.key < b.key
+        ? -1
+        : a.key > b.key
+        ? 1
+        : 0;
+    if (c !== 0) return c;
+  }
+  return a.index - b.index;
+}
+
+/** Returns the hostname (minus any leading "www.") of a URL, if it has one. */
+function hostnameOf(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "") || undefined;
+  } catch (e) {
+    return undefined;
+  }
+}
+
 /** Returns a function which returns true if a tab is looking at a particular
  * URL, taking into account any transformations done by urlToOpen(). */
 function tabLookingAtP(url: string): (t?: {url?: string}) => boolean {
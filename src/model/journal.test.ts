@@ -0,0 +1,231 @@
+import {expect} from "chai";
+
+import {UserError} from "../util/oops";
+
+import {Model, type Step} from "./journal";
+
+describe("model/journal", () => {
+  let model: Model;
+  let log: string[];
+
+  const step = (name: string): Step => ({
+    undo: async () => void log.push(`undo ${name}`),
+    redo: async () => void log.push(`redo ${name}`),
+  });
+
+  beforeEach(() => {
+    model = new Model();
+    log = [];
+  });
+
+  it("records steps taken during a transaction", async () => {
+    const r = await model.transaction("did things", async txn => {
+      model.record(txn, step("a"));
+      model.record(txn, step("b"));
+      return 42;
+    });
+
+    expect(r).to.equal(42);
+    expect(model.state.undoable.map(e => e.description)).to.deep.equal([
+      "did things",
+    ]);
+    expect(model.state.undoable[0].steps.length).to.equal(2);
+    expect(model.state.recent).to.deep.include({undone: false});
+    expect(model.state.recent!.entry.description).to.equal("did things");
+  });
+
+  it("ignores steps taken outside of a transaction", async () => {
+    model.record(undefined, step("a"));
+    expect(model.state.undoable).to.deep.equal([]);
+  });
+
+  it("doesn't add unrelated steps to a running transaction", async () => {
+    await model.transaction("did things", async txn => {
+      model.record(txn, step("a"));
+      model.record(undefined, step("b"));
+    });
+
+    expect(model.state.undoable.length).to.equal(1);
+    expect(model.state.undoable[0].steps.length).to.equal(1);
+  });
+
+  it("ignores transactions which did nothing", async () => {
+    await model.transaction("nothing", async () => {});
+    expect(model.state.undoable).to.deep.equal([]);
+    expect(model.state.recent).to.be.undefined;
+  });
+
+  it("folds nested transactions into their parent", async () => {
+    await model.transaction("outer", async txn => {
+      model.record(txn, step("a"));
+      await model.transaction(
+        "inner",
+        async inner => model.record(inner, step("b")),
+        txn,
+      );
+    });
+
+    expect(model.state.undoable.length).to.equal(1);
+    expect(model.state.undoable[0].description).to.equal("outer");
+    expect(model.state.undoable[0].steps.length).to.equal(2);
+  });
+
+  it("waits for a running transaction before starting another", async () => {
+    let finish_first!: () => void;
+    const first = model.transaction("first", async txn => {
+      model.record(txn, step("a"));
+      await new Promise<void>(r => (finish_first = r));
+      model.record(txn, step("b"));
+    });
+    const second = model.transaction("second", async txn => {
+      log.push("second started");
+      model.record(txn, step("c"));
+    });
+
+    await new Promise(r => setTimeout(r));
+    expect(log).to.deep.equal([]);
+
+    finish_first();
+    await Promise.all([first, second]);
+
+    expect(log).to.deep.equal(["second started"]);
+    expect(
+      model.state.undoable.map(e => [e.description, e.steps.length]),
+    ).to.deep.equal([
+      ["first", 2],
+      ["second", 1],
+    ]);
+  });
+
+  it("starts the next transaction even if one fails", async () => {
+    const first = model.transaction("first", async () => {
+      throw new Error("oops");
+    });
+    const second = model.transaction("second", async txn =>
+      model.record(txn, step("a")),
+    );
+
+    await first.then(
+      // istanbul ignore next
+      () => expect.fail("transaction() did not throw"),
+      e => expect(e.message).to.equal("oops"),
+    );
+    await second;
+    expect(model.state.undoable.map(e => e.description)).to.deep.equal([
+      "second",
+    ]);
+  });
+
+  it("records the transaction even if it fails", async () => {
+    await model
+      .transaction("oops", async txn => {
+        model.record(txn, step("a"));
+        throw new Error("oops");
+      })
+      .then(
+        // istanbul ignore next
+        () => expect.fail("transaction() did not throw"),
+        e => expect(e.message).to.equal("oops"),
+      );
+
+    expect(model.state.undoable.map(e => e.description)).to.deep.equal([
+      "oops",
+    ]);
+  });
+
+  it("undoes and redoes steps in the right order", async () => {
+    await model.transaction("first", async txn => {
+      model.record(txn, step("a"));
+      model.record(txn, step("b"));
+    });
+
+    const undone = await model.undo();
+    expect(undone!.description).to.equal("first");
+    expect(log).to.deep.equal(["undo b", "undo a"]);
+    expect(model.state.undoable).to.deep.equal([]);
+    expect(model.state.redoable.length).to.equal(1);
+    expect(model.state.recent).to.deep.include({undone: true});
+
+    log = [];
+    const redone = await model.redo();
+    expect(redone).to.equal(undone);
+    expect(log).to.deep.equal(["redo a", "redo b"]);
+    expect(model.state.undoable.length).to.equal(1);
+    expect(model.state.redoable).to.deep.equal([]);
+    expect(model.state.recent).to.deep.include({undone: false});
+  });
+
+  it("does nothing if there is nothing to undo or redo", async () => {
+    expect(await model.undo()).to.be.undefined;
+    expect(await model.redo()).to.be.undefined;
+    expect(log).to.deep.equal([]);
+  });
+
+  it("forgets undone operations once something new is done", async () => {
+    await model.transaction("first", async txn => model.record(txn, step("a")));
+    await model.undo();
+    expect(model.state.redoable.length).to.equal(1);
+
+    await model.transaction("second", async txn =>
+      model.record(txn, step("b")),
+    );
+    expect(model.state.redoable).to.deep.equal([]);
+    expect(model.state.undoable.map(e => e.description)).to.deep.equal([
+      "second",
+    ]);
+  });
+
+  it("does not record steps taken while undoing", async () => {
+    await model.transaction("first", async txn => {
+      model.record(txn, {
+        undo: async () => model.record(txn, step("x")),
+        redo: async () => {},
+      });
+    });
+
+    await model.undo();
+    expect(model.state.undoable).to.deep.equal([]);
+    expect(model.state.redoable.length).to.equal(1);
+    expect(model.state.redoable[0].steps.length).to.equal(1);
+  });
+
+  it("waits for an undo to finish before starting a transaction", async () => {
+    await model.transaction("first", async txn => model.record(txn, step("a")));
+
+    const undone = model.undo();
+    await model.transaction("second", async txn => {
+      expect(log).to.deep.equal(["undo a"]);
+      model.record(txn, step("b"));
+    });
+    await undone;
+
+    expect(model.state.undoable.map(e => e.description)).to.deep.equal([
+      "second",
+    ]);
+  });
+
+  it("refuses to undo while a transaction is running", async () => {
+    await model.transaction("first", async txn => model.record(txn, step("a")));
+
+    await model.transaction("second", async () => {
+      await model.undo().then(
+        // istanbul ignore next
+        () => expect.fail("undo() did not throw"),
+        e => expect(e).to.be.instanceOf(UserError),
+      );
+    });
+    expect(log).to.deep.equal([]);
+  });
+
+  it("follows IDs of re-created items", () => {
+    expect(model.resolve("a")).to.equal("a");
+
+    model.remap("a", "b");
+    model.remap("b", "c");
+    model.remap("d", "d");
+
+    expect(model.resolve("a")).to.equal("c");
+    expect(model.resolve("b")).to.equal("c");
+    expect(model.resolve("d")).to.equal("d");
+  });
+});
@@ -0,0 +1,206 @@
+// Model for undoing and redoing operations on the stash.  See index.ts for how
+// this fits in to the overall Tab Stash model.
+//
+// Operations which should be undoable are wrapped in a transaction (see
+// `Model.transaction()`).  The low-level operations a transaction performs
+// (creating/moving/renaming/removing bookmarks and tabs) are given the
+// transaction, and record steps into it which describe how to undo and redo
+// each change.  Low-level operations which aren't given a transaction aren't
+// recorded at all, even if some other transaction happens to be running.  Undoing a transaction undoes its steps in reverse order; redoing it
+// redoes them in the original order.
+//
+// Only one transaction runs at a time; a transaction which is started while
+// another is running waits for the first one to finish, so the steps of
+// unrelated operations never end up in the same entry.  An operation which is
+// implemented in terms of other undoable operations passes its `Transaction`
+// down to them, so they become part of it instead of waiting for it.
+//
+// The journal lives only in memory, and only knows about things done through
+// this copy of the model.  If bookmarks/tabs are changed elsewhere in the
+// meantime, undo/redo may fail, in which case the entry is dropped.
+
+import {reactive, toRaw} from "vue";
+
+import {UserError} from "../util/oops";
+
+/** A single change made as part of a transaction. */
+export type Step = {
+  undo(): Promise<void>;
+  redo(): Promise<void>;
+};
+
+/** A single undoable operation, consisting of one or more steps. */
+export type Entry = {
+  /** A description of what the operation did, e.g. "moved 12 tabs". */
+  description: string;
+  steps: Step[];
+};
+
+/** A transaction which is currently running. */
+export type Transaction = Entry;
+
+export type State = {
+  /** Entries which may be undone, oldest first. */
+  undoable: Entry[];
+
+  /** Entries which were undone and may be redone, most recently-undone
+   * last. */
+  redoable: Entry[];
+
+  /** The most recent entry to be done (or undone), so the UI can offer to
+   * undo (or redo) it.  Cleared after a timeout. */
+  recent: {entry: Entry; undone: boolean} | undefined;
+};
+
+const MAX_ENTRIES = 100;
+const RECENT_ENTRY_TIMEOUT = 8000; // ms
+
+export class Model {
+  readonly state: State = reactive({
+    undoable: [],
+    redoable: [],
+    recent: undefined,
+  });
+
+  /** Are we in the middle of undoing/redoing something? */
+  private _replaying = false;
+
+  /** Settles once the most recently-started transaction (or undo/redo) has
+   * finished; anything started in the meantime waits for it. */
+  private _queue: Promise<void> = Promise.resolve();
+
+  /** How many transactions (or undos/redos) are running or waiting to run. */
+  private _pending = 0;
+
+  /** When nodes are re-created during undo/redo, they get new IDs; this maps
+   * old IDs to their replacements. */
+  private _ids = new Map<unknown, unknown>();
+
+  private _clear_recent_timeout: undefined | ReturnType<typeof setTimeout>;
+
+  /** Run `fn()` as a single undoable operation.  Any steps recorded while
+   * `fn()` is running become part of the operation.
+   *
+   * If `parent` is given, `fn()` simply becomes part of that (already-running)
+   * transaction, and `description` is ignored.  Otherwise, if another
+   * transaction is running, we wait for it to finish before starting this
+   * one. */
+  async transaction<R>(
+    description: string,
+    fn: (txn: Transaction) => Promise<R>,
+    parent?: Transaction,
+  ): Promise<R> {
+    if (parent) return await fn(parent);
+
+    return await this._exclusively(async () => {
+      const entry: Entry = {description, steps: []};
+      try {
+        return await fn(entry);
+      } finally {
+        if (entry.steps.length > 0) {
+          this.state.undoable.push(entry);
+          if (this.state.undoable.length > MAX_ENTRIES) {
+            this.state.undoable.splice(0, 1);
+          }
+          this.state.redoable.splice(0);
+          this._setRecent(entry, false);
+        }
+      }
+    });
+  }
+
+  /** Record a step in `txn`.  Steps which happen outside of a transaction
+   * (i.e. if `txn` is undefined), or while undoing/redoing, are not
+   * recorded. */
+  record(txn: Transaction | undefined, step: Step) {
+    if (this._replaying || !txn) return;
+    txn.steps.push(step);
+  }
+
+  /** Returns the current ID of a (bookmark or tab) ID which was recorded in a
+   * step, accounting for any nodes which were re-created since then. */
+  resolve<T>(id: T): T {
+    while (this._ids.has(id)) id = this._ids.get(id) as T;
+    return id;
+  }
+
+  /** Note that a node has been re-created with a new ID. */
+  remap<T>(oldId: T, newId: T) {
+    if (oldId !== newId) this._ids.set(oldId, newId);
+  }
+
+  /** Is `entry` the operation undo() would undo next? */
+  isNextUndo(entry: Entry): boolean {
+    const last = this.state.undoable[this.state.undoable.length - 1];
+    return last !== undefined && toRaw(last) === toRaw(entry);
+  }
+
+  /** Undo the most recent operation, returning it (if there was one). */
+  async undo(): Promise<Entry | undefined> {
+    if (this._pending > 0) {
+      throw new UserError(`Please wait for the current operation to finish.`);
+    }
+    const entry = this.state.undoable.pop();
+    if (!entry) return undefined;
+
+    await this._replay(async () => {
+      for (const step of Array.from(entry.steps).reverse()) await step.undo();
+    });
+    this.state.redoable.push(entry);
+    this._setRecent(entry, true);
+    return entry;
+  }
+
+  /** Redo the most recently-undone operation, returning it (if there was
+   * one). */
+  async redo(): Promise<Entry | undefined> {
+    if (this._pending > 0) {
+      throw new UserError(`Please wait for the current operation to finish.`);
+    }
+    const entry = this.state.redoable.pop();
+    if (!entry) return undefined;
+
+    await this._replay(async () => {
+      for (const step of entry.steps) await step.redo();
+    });
+    this.state.undoable.push(entry);
+    this._setRecent(entry, false);
+    return entry;
+  }
+
+  private async _replay(fn: () => Promise<void>) {
+    await this._exclusively(async () => {
+      this._replaying = true;
+      try {
+        await fn();
+      } finally {
+        this._replaying = false;
+      }
+    });
+  }
+
+  /** Run `fn()` once everything which was started before it has finished. */
+  private async _exclusively<R>(fn: () => Promise<R>): Promise<R> {
+    const prev = this._queue;
+    let done!: () => void;
+    this._queue = new Promise(resolve => (done = resolve));
+    ++this._pending;
+    try {
+      await prev;
+      return await fn();
+    } finally {
+      --this._pending;
+      done();
+    }
+  }
+
+  private _setRecent(entry: Entry, undone: boolean) {
+    this.state.recent = {entry, undone};
+
+    if (this._clear_recent_timeout) clearTimeout(this._clear_recent_timeout);
+    this._clear_recent_timeout = setTimeout(() => {
+      this.state.recent = undefined;
+      this._clear_recent_timeout = undefined;
+    }, RECENT_ENTRY_TIMEOUT);
+  }
+}
@@ -11,13 +11,14 @@ import browser from "webextension-polyfill";
 
 import stored_object, {
   aBoolean,
+  anArrayOf,
   anEnum,
   aNumber,
   aString,
   maybeUndef,
   type StoredObject,
 } from "../datastore/stored-object";
-import {resolveNamed} from "../util";
+import {resolveNamed, type URLNormalization} from "../util";
 import {errorLog, UserError} from "../util/oops";
 
 export const SHOW_WHAT_OPT = anEnum("sidebar", "tab", "popup", "none");
@@ -27,6 +28,16 @@ export type StashWhatOpt = ReturnType<typeof STASH_WHAT_OPT>;
 
 export const SHOW_WHAT_DEFAULT = browser.sidebarAction ? "sidebar" : "tab";
 
+/** A rule which sends single stashed tabs whose URLs match `pattern` (see
+ * urlPatternMatcher()) to the top-level group named `folder`. */
+export type StashRule = [pattern: string, folder: string];
+export const STASH_RULE = (value: any, fallback: StashRule): StashRule =>
+  value instanceof Array &&
+  value.length === 2 &&
+  value.every(v => typeof v === "string")
+    ? [value[0], value[1]]
+    : fallback;
+
 export type SyncModel = StoredObject<typeof SYNC_DEF>;
 export type SyncState = SyncModel["state"];
 export const SYNC_DEF = {
@@ -76,6 +87,28 @@ export const SYNC_DEF = {
   // create a new folder instead of appending to the existing one.
   new_folder_timeout_min: {default: 5, is: aNumber},
 
+  // Rules for where to put single stashed tabs, checked in order.  Tabs which
+  // don't match any rule go into the recent unnamed folder as usual.
+  stash_rules: {default: [] as StashRule[], is: anArrayOf(STASH_RULE)},
+
+  // URL patterns (see urlPatternMatcher()) for pages which should never be
+  // stashed, e.g. login pages or webmail.
+  stash_blocklist: {default: [] as string[], is: anArrayOf(aString)},
+
+  // Which parts of a URL should we ignore when deciding whether an open tab is
+  // the same page as a stashed bookmark (see normalizeURL())?
+  url_strip_tracking_params: {default: false, is: aBoolean},
+  url_ignore_fragment: {default: false, is: aBoolean},
+  url_fold_www: {default: false, is: aBoolean},
+  url_ignore_trailing_slash: {default: false, is: aBoolean},
+
+  // Names of additional profiles, each of which has its own stash root (the
+  // default profile is not included here).
+  stash_profiles: {default: [] as string[], is: anArrayOf(aString)},
+
+  // When a window is closed, should its tabs be stashed in a new group?
+  stash_closed_windows: {default: false, is: aBoolean},
+
   // How long should we keep deleted items for?
   deleted_items_expiration_days: {default: 180, is: aNumber},
 } as const;
@@ -118,17 +151,28 @@ export const LOCAL_DEF = {
   /** Confirm whether to close lots of open tabs or not. */
   confirm_close_open_tabs: {default: true, is: aBoolean},
 
+  /** IDs of other extensions which may use Tab Stash's external API (see
+   * model/external-api.ts).  Extension IDs differ between browsers, so this
+   * isn't synced. */
+  external_api_allowed_ids: {default: [] as string[], is: anArrayOf(aString)},
+
+  /** The profile (see `stash_profiles`) whose stash is shown and used in this
+   * browser.  "" is the default profile. */
+  current_stash_profile: {default: "", is: aString},
+
   /** Disable crash reports for a certain amount of time. */
   hide_crash_reports_until: {default: undefined, is: maybeUndef(aNumber)},
 
+  /** How many tabs were restored into the default container because the
+   * container they were stashed from no longer exists, since the user last
+   * dismissed the warning about it.  The UI resets this to 0. */
+  missing_container_tabs: {default: 0, is: aNumber},
+
   // Feature flags
 
   /** Re-open a recently-closed tab if one can't be found.  Disabled by
    * default because of bugs in Firefox.  See #188. */
   ff_restore_closed_tabs: {default: false, is: aBoolean},
-
-  /** Container color indicators. Related issue: #125 */
-  // ff_container_indicators: {default: false, is: aBoolean},
 } as const;
 
 export type Source = {
@@ -170,4 +214,14 @@ export class Model {
   });
 
   private _now = ref(Date.now());
+
+  /** The rules to use when comparing URLs of tabs and bookmarks. */
+  readonly urlNormalization = computed(
+    (): URLNormalization => ({
+      strip_tracking_params: this.sync.state.url_strip_tracking_params,
+      ignore_fragment: this.sync.state.url_ignore_fragment,
+      fold_www: this.sync.state.url_fold_www,
+      ignore_trailing_slash: this.sync.state.url_ignore_trailing_slash,
+    }),
+  );
 }
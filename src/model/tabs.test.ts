@@ -37,6 +37,7 @@ describe("model/tabs", () => {
         highlighted: !!tab.highlighted,
         discarded: !!tab.discarded,
         cookieStoreId: tab.cookieStoreId,
+        lastAccessed: tab.lastAccessed,
         $selected: false,
       });
     }
@@ -73,6 +74,7 @@ describe("model/tabs", () => {
       highlighted: false,
       discarded: false,
       cookieStoreId: undefined,
+      lastAccessed: undefined,
       $selected: false,
     });
 
@@ -189,6 +191,7 @@ describe("model/tabs", () => {
       highlighted: false,
       discarded: false,
       cookieStoreId: tab.cookieStoreId,
+      lastAccessed: undefined,
       $selected: false,
     });
     expect(Array.from(model.tabsWithURL("hi"))).to.deep.equal([
@@ -235,6 +238,7 @@ describe("model/tabs", () => {
       highlighted: !!tab.highlighted,
       discarded: !!tab.discarded,
       cookieStoreId: tab.cookieStoreId,
+      lastAccessed: tab.lastAccessed,
       $selected: false,
     });
     expect(model.tabsWithURL("cats")).to.deep.equal(new Set([model.tab(tid)]));
@@ -290,6 +294,41 @@ describe("model/tabs", () => {
     expect(model.tab(tabs.right_doug.id)).to.be.undefined;
   });
 
+  it("remembers what was in a window after it is closed", async () => {
+    await browser.windows.remove(windows.right.id);
+    await events.next(browser.windows.onRemoved);
+
+    const closed = model.closedWindow(windows.right.id)!;
+    expect(closed.id).to.equal(windows.right.id);
+    expect(closed.incognito).to.be.false;
+    expect(closed.tabs.map(t => t.id)).to.deep.equal([
+      tabs.right_blank.id,
+      tabs.right_adam.id,
+      tabs.right_doug.id,
+    ]);
+    expect(model.closedWindow(windows.left.id)).to.be.undefined;
+  });
+
+  it("keeps tabs in a closing window until the window is removed", async () => {
+    events.send(browser.tabs.onRemoved, tabs.right_adam.id, {
+      windowId: windows.right.id,
+      isWindowClosing: true,
+    });
+    await events.next(browser.tabs.onRemoved);
+    expect(model.tab(tabs.right_adam.id)).to.not.be.undefined;
+
+    events.send(browser.windows.onRemoved, windows.right.id);
+    await events.next(browser.windows.onRemoved);
+    expect(model.tab(tabs.right_adam.id)).to.be.undefined;
+    expect(
+      model.closedWindow(windows.right.id)!.tabs.map(t => t.id),
+    ).to.deep.equal([
+      tabs.right_blank.id,
+      tabs.right_adam.id,
+      tabs.right_doug.id,
+    ]);
+  });
+
   it("moves tabs within a window (forwards)", async () => {
     await browser.tabs.move(tabs.left_alice.id, {
       windowId: windows.left.id,
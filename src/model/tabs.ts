@@ -5,16 +5,20 @@ import browser from "webextension-polyfill";
 import {
   AsyncTaskQueue,
   backingOff,
+  EXACT_URL_MATCHING,
   expect,
   filterMap,
+  normalizeURL,
   shortPoll,
   tryAgain,
   urlToOpen,
   type OpenableURL,
+  type URLNormalization,
 } from "../util";
 import {trace_fn} from "../util/debug";
 import {logErrorsFrom} from "../util/oops";
 import {EventWiring} from "../util/wiring";
+import type * as Journal from "./journal";
 import type {Position, Tree} from "./tree";
 
 export type Window = {
@@ -34,10 +38,22 @@ export type Tab = {
   active: boolean;
   highlighted: boolean;
   discarded: boolean;
+  /** When the tab was last looked at (in milliseconds since the epoch), if
+   * known. */
+  lastAccessed: number | undefined;
 
   $selected: boolean;
 };
 
+/** A snapshot of a window (and the tabs it contained) taken just before the
+ * window was closed. */
+export type ClosedWindow = {
+  readonly id: WindowID;
+  readonly incognito: boolean;
+  readonly closedAt: number;
+  readonly tabs: Tab[];
+};
+
 export type WindowID = number & {readonly __window_id: unique symbol};
 export type TabID = number & {readonly __tab_id: unique symbol};
 
@@ -48,6 +64,9 @@ const trace = trace_fn("tabs");
  * always trigger tab loading on their own.) */
 const MAX_LOADING_TABS = navigator.hardwareConcurrency ?? 4;
 
+/** How many recently-closed windows do we remember (see `closedWindow()`)? */
+const MAX_CLOSED_WINDOWS = 8;
+
 /** A Vue model for the state of all open browser windows and their tabs.
  *
  * This model basically follows the WebExtension API, but some things are
@@ -62,6 +81,10 @@ export class Model implements Tree<Window, Tab> {
   private readonly windows = new Map<WindowID, Window>();
   private readonly tabs = new Map<TabID, Tab>();
   private readonly tabs_by_url = new Map<OpenableURL, Set<Tab>>();
+  /** How URLs are normalized before being used as keys in `tabs_by_url`. */
+  private _url_normalization: URLNormalization = EXACT_URL_MATCHING;
+  private readonly incognito_windows = new Set<WindowID>();
+  private readonly closed_windows = new Map<WindowID, ClosedWindow>();
 
   /** The initial window that this model was opened with (if it still exists). */
   readonly initialWindow: Ref<WindowID | undefined> = ref();
@@ -88,6 +111,10 @@ export class Model implements Tree<Window, Tab> {
   /** The number of tabs being loaded. */
   readonly loadingCount = ref(0);
 
+  /** If set, changes made through this model are recorded here so they can
+   * be undone later. */
+  journal: Journal.Model | undefined;
+
   /** A queue of tabs to load.  We only want to allow so many tabs to load at
    * once (to avoid overwhelming the user's machine), so every single call that
    * could cause a tab to be loaded must go through here. */
@@ -197,6 +224,13 @@ export class Model implements Tree<Window, Tab> {
     return this.tabs.get(id as TabID);
   }
 
+  /** Returns what a recently-closed window looked like just before it was
+   * closed.  Only the last few closed windows are remembered, so this should
+   * be called promptly after the browser reports the window was removed. */
+  closedWindow(id: number): ClosedWindow | undefined {
+    return this.closed_windows.get(id as WindowID);
+  }
+
   tabsIn(win: Window): Tab[] {
     return filterMap(win.tabs, cid => this.tab(cid));
   }
@@ -234,12 +268,29 @@ export class Model implements Tree<Window, Tab> {
     return filterMap(window.tabs, t => this.tab(t)).filter(t => t.active)[0];
   }
 
+  /** Change which URLs are considered to be the "same" page (see
+   * normalizeURL()), and re-index all the tabs accordingly.  Any
+   * previously-returned sets from tabsWithURL() which no longer apply are
+   * emptied, so reactive users will be updated. */
+  setURLNormalization(rules: URLNormalization) {
+    this._url_normalization = rules;
+
+    const tabs: Tab[] = [];
+    for (const index of this.tabs_by_url.values()) {
+      tabs.push(...index);
+      index.clear();
+    }
+    for (const t of tabs) this._add_url(t);
+  }
+
   /** Returns a reactive set of tabs with the specified URL. */
   tabsWithURL(url: string): Set<Tab> {
-    let index = this.tabs_by_url.get(urlToOpen(url));
+    let index = this.tabs_by_url.get(
+      normalizeURL(url, this._url_normalization),
+    );
     if (!index) {
       index = reactive(new Set<Tab>());
-      this.tabs_by_url.set(urlToOpen(url), index);
+      this.tabs_by_url.set(normalizeURL(url, this._url_normalization), index);
     }
     return index;
   }
@@ -251,8 +302,31 @@ export class Model implements Tree<Window, Tab> {
   /** Creates a new tab and waits for the model to reflect its existence.
    *
    * Note that creation of non-discarded is rate-limited, to avoid
-   * overwhelming the user's system with a lot of loading tabs. */
-  async create(tab: browser.Tabs.CreateCreatePropertiesType): Promise<Tab> {
+   * overwhelming the user's system with a lot of loading tabs.
+   *
+   * The creation is recorded as part of `txn`, if it's given. */
+  async create(
+    tab: browser.Tabs.CreateCreatePropertiesType,
+    txn?: Journal.Transaction,
+  ): Promise<Tab> {
+    const t = await this._create(tab);
+
+    const j = this.journal;
+    j?.record(txn, {
+      undo: () => this.remove([j.resolve(t.id)]),
+      redo: async () => {
+        const old_id = j.resolve(t.id);
+        const windowId = tab.windowId && j.resolve(tab.windowId as WindowID);
+        j.remap(old_id, (await this.create({...tab, windowId})).id);
+      },
+    });
+
+    return t;
+  }
+
+  private async _create(
+    tab: browser.Tabs.CreateCreatePropertiesType,
+  ): Promise<Tab> {
     const create_tab = Object.assign({}, tab);
 
     if (!browser.tabs.hide || !tab.url || tab.url.startsWith("about:")) {
@@ -305,13 +379,64 @@ export class Model implements Tree<Window, Tab> {
     return m;
   }
 
+  /** Creates a new browser window (containing just the browser's default
+   * tab) and waits for the model to reflect its existence. */
+  async createWindow(): Promise<Window> {
+    trace("creating window");
+    const w = await browser.windows.create();
+    return await shortPoll(() => {
+      const win = this.windows.get(w.id as WindowID);
+      if (!win || win.tabs.length === 0) tryAgain();
+      return win;
+    });
+  }
+
   /** Moves a tab such that it precedes the item with index `toIndex` in
    * the destination window.  (You can pass an index `>=` the length of the
-   * windows's tab list to move the item to the end of the window.) */
-  async move(id: TabID, toWindow: WindowID, toIndex: number): Promise<void> {
+   * windows's tab list to move the item to the end of the window.)  The move
+   * is recorded as part of `txn`, if it's given. */
+  async move(
+    id: TabID,
+    toWindow: WindowID,
+    toIndex: number,
+    txn?: Journal.Transaction,
+  ): Promise<void> {
     // This method mainly exists to provide consistent behavior between
     // bookmarks.move() and tabs.move().
     const tab = expect(this.tab(id), () => `Tab ${id} does not exist`);
+    const from = expect(
+      this.positionOf(tab),
+      () => `Unable to locate tab ${id} in its window`,
+    );
+
+    await this._move(tab, toWindow, toIndex);
+
+    const j = this.journal;
+    j?.record(txn, {
+      undo: async () => {
+        // Put the tab back at the same index it had before, accounting for
+        // the fact that _move() expects the index it should precede.
+        const t = expect(this.tab(j.resolve(id)), () => `Tab ${id} is gone`);
+        const cur = this.positionOf(t);
+        const index =
+          cur && cur.parent.id === from.parent.id && cur.index < from.index
+            ? from.index + 1
+            : from.index;
+        await this._move(t, from.parent.id, index);
+      },
+      redo: async () => {
+        const t = expect(this.tab(j.resolve(id)), () => `Tab ${id} is gone`);
+        await this._move(t, toWindow, toIndex);
+      },
+    });
+  }
+
+  private async _move(
+    tab: Tab,
+    toWindow: WindowID,
+    toIndex: number,
+  ): Promise<void> {
+    const id = tab.id;
 
     // Unlike browser.bookmarks.move(), browser.tabs.move() behaves the same
     // on both Firefox and Chrome.
@@ -330,14 +455,40 @@ export class Model implements Tree<Window, Tab> {
   }
 
   /** Close the specified tabs, but leave the browser window open (and create
-   * a new tab if necessary to keep it open). */
-  async remove(tabIds: TabID[]): Promise<void> {
+   * a new tab if necessary to keep it open).  The removal is recorded as part
+   * of `txn`, if it's given. */
+  async remove(tabIds: TabID[], txn?: Journal.Transaction): Promise<void> {
     trace("removing tabs", tabIds);
+    const removed = filterMap(tabIds, id => this.tabs.get(id)).map(t => ({
+      ...t,
+      index: this.positionOf(t)?.index,
+    }));
+
     await this.refocusAwayFromTabs(tabIds);
     await browser.tabs.remove(tabIds);
     await shortPoll(() => {
       if (tabIds.find(tid => this.tabs.has(tid)) !== undefined) tryAgain();
     });
+
+    const j = this.journal;
+    j?.record(txn, {
+      undo: async () => {
+        // Re-create tabs in order so each one lands at its original index.
+        removed.sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+        for (const t of removed) {
+          const created = await this.create({
+            url: urlToOpen(t.url),
+            windowId: j.resolve(t.windowId),
+            index: t.index,
+            cookieStoreId: t.cookieStoreId,
+            discarded: t.discarded,
+            active: false,
+          });
+          j.remap(j.resolve(t.id), created.id);
+        }
+      },
+      redo: () => this.remove(removed.map(t => j.resolve(t.id))),
+    });
   }
 
   /** If any of the provided tabIds are the active tab, change to a different
@@ -429,6 +580,7 @@ export class Model implements Tree<Window, Tab> {
       this.windows.set(wid, window);
     }
     trace("event windowCreated", win.id, win);
+    if (win.incognito) this.incognito_windows.add(wid);
     // istanbul ignore else
     if (win.tabs !== undefined) {
       for (const t of win.tabs) this.whenTabCreated(t);
@@ -453,6 +605,20 @@ export class Model implements Tree<Window, Tab> {
     if (this.focusedWindow.value === winId)
       this.focusedWindow.value = undefined;
 
+    // Remember what was in the window, in case someone wants to do something
+    // with the window's contents now that they're gone.
+    this.closed_windows.set(win.id, {
+      id: win.id,
+      incognito: this.incognito_windows.has(win.id),
+      closedAt: Date.now(),
+      tabs: this.tabsIn(win).map(t => ({...t})),
+    });
+    for (const id of this.closed_windows.keys()) {
+      if (this.closed_windows.size <= MAX_CLOSED_WINDOWS) break;
+      this.closed_windows.delete(id);
+    }
+    this.incognito_windows.delete(win.id);
+
     // We clone the array to avoid disturbances while iterating
     for (const t of Array.from(win.tabs)) this.whenTabRemoved(t);
     this.windows.delete(winId as WindowID);
@@ -484,6 +650,7 @@ export class Model implements Tree<Window, Tab> {
         active: tab.active,
         highlighted: tab.highlighted,
         discarded: tab.discarded ?? false,
+        lastAccessed: tab.lastAccessed,
 
         $selected: false,
       });
@@ -508,10 +675,12 @@ export class Model implements Tree<Window, Tab> {
       t.active = tab.active;
       t.highlighted = tab.highlighted;
       t.discarded = tab.discarded ?? false;
+      t.lastAccessed = tab.lastAccessed;
     }
 
     // Insert the tab in its new position in the window
     const wid = tab.windowId as WindowID;
+    if (tab.incognito) this.incognito_windows.add(wid);
     let win = this.windows.get(wid);
     if (!win) {
       win = reactive({id: wid, tabs: []});
@@ -627,6 +796,7 @@ export class Model implements Tree<Window, Tab> {
     if (win) for (const t of this.tabsIn(win)) t.active = false;
 
     tab.active = true;
+    tab.lastAccessed = Date.now();
   }
 
   whenTabsHighlighted(info: Tabs.OnHighlightedHighlightInfoType) {
@@ -642,11 +812,16 @@ export class Model implements Tree<Window, Tab> {
     }
   }
 
-  whenTabRemoved(tabId: number) {
-    trace("event tabRemoved", tabId);
+  whenTabRemoved(tabId: number, info?: Tabs.OnRemovedRemoveInfoType) {
+    trace("event tabRemoved", tabId, info);
     const t = this.tabs.get(tabId as TabID);
     if (!t) return; // tab is already removed
 
+    // If the whole window is closing, we leave the tab in place so we can see
+    // what was in the window when whenWindowRemoved() is called; it will
+    // clean up the tab.
+    if (info?.isWindowClosing && this.windows.has(t.windowId)) return;
+
     const pos = this.positionOf(t);
 
     trace("event ...tabRemoved", tabId, pos);
@@ -662,7 +837,9 @@ export class Model implements Tree<Window, Tab> {
   }
 
   private _remove_url(t: Tab) {
-    const index = this.tabs_by_url.get(urlToOpen(t.url));
+    const index = this.tabs_by_url.get(
+      normalizeURL(t.url, this._url_normalization),
+    );
     // istanbul ignore if -- internal consistency
     if (!index) return;
     index.delete(t);
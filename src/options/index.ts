@@ -4,16 +4,19 @@ import browser from "webextension-polyfill";
 
 import launch from "../launch-vue";
 
+import * as Commands from "../model/commands";
 import * as Options from "../model/options";
 import Main from "./index.vue";
 
 launch(Main, async () => {
   const opts = await Options.Model.live();
+  const commands = await Commands.Model.live();
   (<any>globalThis).model = opts;
   return {
     propsData: {
       hasSidebar: !!browser.sidebarAction,
       model: opts,
+      commands,
     },
   };
 });
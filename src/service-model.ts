@@ -16,6 +16,10 @@ export default async function (): Promise<M.Model> {
       "deleted_items",
       "deleted_items",
     ),
+    activity_log: KVSService.open<string, M.ActivityLog.SourceValue>(
+      "activity_log",
+      "activity_log",
+    ),
     favicons: KVSService.open<string, M.Favicons.Favicon>(
       "favicons",
       "favicons",
@@ -33,9 +37,11 @@ export default async function (): Promise<M.Model> {
     containers: M.Containers.Model.from_browser(),
     bookmarks: M.Bookmarks.Model.from_browser(),
     deleted_items: new M.DeletedItems.Model(kvs.deleted_items),
+    activity_log: new M.ActivityLog.Model(kvs.activity_log),
   });
 
   listen("deleted_items", kvs.deleted_items);
+  listen("activity_log", kvs.activity_log);
   listen("favicons", kvs.favicons);
   listen("bookmark-metadata", kvs.bookmark_metadata);
 
@@ -0,0 +1,94 @@
+import {expect} from "chai";
+
+import {classifySiteInfo, isCheckableURL} from "./check-links";
+
+describe("check-links", function () {
+  describe("classifySiteInfo", function () {
+    const at = 1234;
+    const url = "https://example.com/page";
+
+    it("reports sites which loaded at the same URL as alive", () => {
+      expect(
+        classifySiteInfo({originalUrl: url, finalUrl: url, complete: true}, at),
+      ).to.deep.equal({status: "alive", url, checked_at: at});
+    });
+
+    it("ignores trivial differences in the final URL", () => {
+      expect(
+        classifySiteInfo(
+          {
+            originalUrl: "https://example.com",
+            finalUrl: "https://example.com/",
+            complete: true,
+          },
+          at,
+        ),
+      ).to.deep.equal({
+        status: "alive",
+        url: "https://example.com",
+        checked_at: at,
+      });
+    });
+
+    it("reports where redirected sites ended up", () => {
+      const finalUrl = "https://example.com/moved";
+      expect(
+        classifySiteInfo({originalUrl: url, finalUrl, complete: true}, at),
+      ).to.deep.equal({
+        status: "redirected",
+        url,
+        checked_at: at,
+        final_url: finalUrl,
+      });
+    });
+
+    it("reports sites which failed to load as errors", () => {
+      expect(
+        classifySiteInfo({originalUrl: url, error: new Error("oops")}, at),
+      ).to.deep.equal({status: "error", url, checked_at: at});
+    });
+
+    it("reports browser error pages as errors", () => {
+      expect(
+        classifySiteInfo(
+          {
+            originalUrl: url,
+            finalUrl: "about:neterror?e=dnsNotFound",
+            complete: true,
+          },
+          at,
+        ),
+      ).to.deep.equal({status: "error", url, checked_at: at});
+    });
+
+    it("reports sites which didn't finish loading as timed out", () => {
+      expect(
+        classifySiteInfo(
+          {originalUrl: url, finalUrl: url, complete: false},
+          at,
+        ),
+      ).to.deep.equal({status: "timeout", url, checked_at: at});
+      expect(classifySiteInfo({originalUrl: url}, at)).to.deep.equal({
+        status: "timeout",
+        url,
+        checked_at: at,
+      });
+    });
+  });
+
+  describe("isCheckableURL", function () {
+    it("accepts web pages", () => {
+      expect(isCheckableURL("https://example.com/")).to.be.true;
+      expect(isCheckableURL("http://example.com/page")).to.be.true;
+    });
+
+    it("rejects URLs which can't be loaded in a background tab", () => {
+      expect(isCheckableURL("about:reader?url=https://example.com/")).to.be
+        .false;
+      expect(isCheckableURL("file:///home/me/notes.txt")).to.be.false;
+      expect(isCheckableURL("place:sort=8&maxResults=10")).to.be.false;
+      expect(isCheckableURL("javascript:void(0)")).to.be.false;
+      expect(isCheckableURL("not a url")).to.be.false;
+    });
+  });
+});
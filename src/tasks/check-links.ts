@@ -0,0 +1,97 @@
+import type {Model} from "../model";
+import type {LinkCheck} from "../model/bookmark-metadata";
+import type * as BM from "../model/bookmarks";
+import type {TaskMonitor} from "../util";
+import {trace_fn} from "../util/debug";
+import {fetchInfoForSites, type SiteInfo} from "./siteinfo";
+
+const trace = trace_fn("check-links");
+
+// Pages the browser shows in place of a site which couldn't be loaded (e.g.
+// because the domain doesn't exist anymore, or its certificate is bad).
+const ERROR_PAGE_RE = /^(about:(neterror|certerror|blocked)|chrome-error:)/;
+
+/** Decides whether a link is still alive, based on what happened when we
+ * tried to load it with fetchSiteInfo(). */
+export function classifySiteInfo(
+  info: SiteInfo,
+  checked_at: number,
+): LinkCheck {
+  const url = info.originalUrl;
+  if (info.error) return {status: "error", url, checked_at};
+  if (info.finalUrl && ERROR_PAGE_RE.test(info.finalUrl)) {
+    return {status: "error", url, checked_at};
+  }
+  if (!info.complete || !info.finalUrl) {
+    return {status: "timeout", url, checked_at};
+  }
+
+  if (!sameURL(info.originalUrl, info.finalUrl)) {
+    return {status: "redirected", url, checked_at, final_url: info.finalUrl};
+  }
+  return {status: "alive", url, checked_at};
+}
+
+/** Can we tell whether a link is alive by loading it?  Only web pages can be
+ * checked; other URLs (e.g. `about:` or `file:` URLs) can't be opened by an
+ * extension at all, and would look like errors even though they work fine. */
+export function isCheckableURL(url: string): boolean {
+  try {
+    const {protocol} = new URL(url);
+    return protocol === "http:" || protocol === "https:";
+  } catch (e) {
+    return false;
+  }
+}
+
+/** Check whether the links in a folder (or in the whole stash, if `folderId`
+ * is not specified) still work, by loading each one in a hidden tab.  The
+ * result for each bookmark is saved in its metadata (see
+ * `BookmarkMetadata.link_check`), so it can be shown in the stash list, and
+ * acted on later with `Model.updateRedirectedLinks()` and
+ * `Model.deleteDeadLinks()`.  Only web pages are checked (see
+ * isCheckableURL()).
+ *
+ * If the task is cancelled, bookmarks which were already checked keep their
+ * new results; the rest keep whatever results they had before. */
+export async function checkLinks(options: {
+  model: Model;
+  folderId?: BM.NodeID;
+  task: TaskMonitor;
+}): Promise<void> {
+  const {model, task} = options;
+  const folder =
+    options.folderId !== undefined
+      ? model.bookmarks.folder(options.folderId)
+      : model.bookmarks.stash_root.value;
+  if (!folder) return;
+
+  const bms_by_url = new Map<string, BM.Bookmark[]>();
+  for (const bm of model.bookmarks.bookmarksInFolder(folder)) {
+    if (!isCheckableURL(bm.url)) continue;
+    const v = bms_by_url.get(bm.url);
+    if (v) v.push(bm);
+    else bms_by_url.set(bm.url, [bm]);
+  }
+
+  const urls = new Set(bms_by_url.keys());
+  for await (const info of fetchInfoForSites(urls, task)) {
+    const check = classifySiteInfo(info, Date.now());
+    trace("checked", info.originalUrl, check);
+
+    for (const bm of bms_by_url.get(info.originalUrl) ?? []) {
+      model.bookmark_metadata.setLinkCheck(bm.id, check);
+    }
+    if (task.cancelled) break;
+  }
+}
+
+/** Are two URLs the same, once trivial differences (e.g. a trailing slash
+ * after the domain name) are ignored? */
+function sameURL(a: string, b: string): boolean {
+  try {
+    return new URL(a).href === new URL(b).href;
+  } catch (e) {
+    return a === b;
+  }
+}
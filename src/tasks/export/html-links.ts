@@ -6,13 +6,18 @@ import type {ExportBookmark, ExportFolder} from "./model";
 function renderFolder(level: number, folder: ExportFolder): VNode {
   return h("section", {}, [
     h(`h${level}`, {}, [folder.title]),
+    ...(folder.note ? [h("p", {}, [folder.note])] : []),
     h("ul", {}, folder.bookmarks.map(renderBookmark)),
     ...folder.folders.map(f => renderFolder(Math.min(level + 1, 5), f)),
   ]);
 }
 
 function renderBookmark(node: ExportBookmark): VNode {
-  return h("li", {}, [h("a", {href: node.url}, [node.title])]);
+  const link = h("a", {href: node.url}, [node.title]);
+  if (!node.note) return h("li", {}, [link]);
+  return h("li", {}, [
+    h("dl", {}, [h("dt", {}, [link]), h("dd", {}, [node.note])]),
+  ]);
 }
 
 export default defineComponent({
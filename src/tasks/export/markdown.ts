@@ -9,6 +9,9 @@ const MD_URL_QUOTABLES_RE = /\\|\)/g;
 function renderFolder(level: number, folder: ExportFolder): VNode {
   return h("div", {}, [
     h("div", {}, [`${"".padStart(level, "#")} ${quote_title(folder.title)}`]),
+    ...(folder.note
+      ? [br(), h("div", {}, [quote_note(folder.note)]), br()]
+      : []),
     ...folder.bookmarks.map(renderBookmark),
     ...(folder.folders.length > 0 ? [br()] : []),
     ...delimit(
@@ -20,9 +23,20 @@ function renderFolder(level: number, folder: ExportFolder): VNode {
 
 function renderBookmark(node: ExportBookmark): VNode {
   return h("div", {}, [
-    `- [${quote_title(node.title)}](`,
-    h("a", {href: node.url}, [quote_url(node.url)]),
-    `)`,
+    h("div", {}, [
+      `- [${quote_title(node.title)}](`,
+      h("a", {href: node.url}, [quote_url(node.url)]),
+      `)`,
+    ]),
+    // The note is a nested list item, so its indentation must survive being
+    // copied out of the page.
+    ...(node.note
+      ? [
+          h("div", {style: {whiteSpace: "pre"}}, [
+            `    - ${quote_note(node.note)}`,
+          ]),
+        ]
+      : []),
   ]);
 }
 
@@ -40,6 +54,11 @@ function quote_emphasis(text: string): string {
 function quote_title(text: string): string {
   return quote_emphasis(text.replace(MD_LINK_QUOTABLES_RE, x => `\\${x}`));
 }
+function quote_note(text: string): string {
+  // Notes may span multiple lines, but in Markdown they need to stay within a
+  // single paragraph/list item.
+  return quote_title(text.replace(/\s*\n\s*/g, " "));
+}
 function quote_url(url: string): string {
   return url.replace(MD_URL_QUOTABLES_RE, x => `\\${x}`);
 }
@@ -10,6 +10,7 @@ import {
 export type ExportFolder = {
   id: string;
   title: string;
+  note?: string;
   bookmarks: ExportBookmark[];
   folders: ExportFolder[];
 };
@@ -18,21 +19,39 @@ export type ExportBookmark = {
   id: string;
   title: string;
   url: string;
+  note?: string;
 };
 
-export function exportFolder(m: Model, f: Folder): ExportFolder {
+/** Looks up the note (if any) the user has attached to a bookmark/folder. */
+export type NoteLookup = (id: string) => string | undefined;
+
+export function exportFolder(
+  m: Model,
+  f: Folder,
+  noteFor: NoteLookup = () => undefined,
+): ExportFolder {
   return {
     id: f.id,
     title: friendlyFolderName(f.title),
-    bookmarks: filterMap(f.children, id => m.bookmark(id)).map(exportBookmark),
+    ...withNote(noteFor(f.id)),
+    bookmarks: filterMap(f.children, id => m.bookmark(id)).map(bm =>
+      exportBookmark(bm, noteFor),
+    ),
     folders: filterMap(f.children, id => m.folder(id)).map(f =>
-      exportFolder(m, f),
+      exportFolder(m, f, noteFor),
     ),
   };
 }
 
-export function exportBookmark(bm: Bookmark): ExportBookmark {
-  return {id: bm.id, title: bm.title, url: bm.url};
+export function exportBookmark(
+  bm: Bookmark,
+  noteFor: NoteLookup = () => undefined,
+): ExportBookmark {
+  return {id: bm.id, title: bm.title, url: bm.url, ...withNote(noteFor(bm.id))};
+}
+
+function withNote(note: string | undefined): {note?: string} {
+  return note ? {note} : {};
 }
 
 export function br(): VNode {
@@ -1,11 +1,26 @@
-import type {NewTab} from "@/model";
 import {expect} from "chai";
 
-import {extractURLs} from "./import";
+import storage_mock from "../mock/browser/storage";
+import * as events from "../mock/events";
+
+import {KVSCache} from "../datastore/kvs";
+import MemoryKVS from "../datastore/kvs/memory";
+import {_StoredObjectFactory} from "../datastore/stored-object";
+import * as M from "../model";
+import {
+  B,
+  make_bookmarks,
+  make_favicons,
+  make_tabs,
+  STASH_ROOT_NAME,
+} from "../model/fixtures.testlib";
+import {LOCAL_DEF, SYNC_DEF} from "../model/options";
+
+import {extractURLs, stashLinks} from "./import";
 
 describe("import", function () {
   describe("extractURLs", function () {
-    const itf = (desc: string, i: string, o: NewTab[]) =>
+    const itf = (desc: string, i: string, o: M.NewTab[]) =>
       it(desc, () => expect(Array.from(extractURLs(i))).to.deep.equal(o));
 
     itf("parses a single URL", "http://example.com/", [
@@ -83,4 +98,91 @@ http://example.com/\tasdf
       [],
     );
   });
+
+  describe("stashLinks", function () {
+    let model: M.Model;
+
+    beforeEach(async () => {
+      storage_mock.reset();
+      const stored_object_factory = new _StoredObjectFactory();
+
+      await make_tabs();
+      await make_bookmarks();
+
+      // Links which already have titles and favicons are stashed as-is,
+      // without trying to load them.
+      const favicons = new MemoryKVS<string, M.Favicons.Favicon>("favicons");
+      await make_favicons(favicons);
+
+      model = new M.Model({
+        browser_settings: await M.BrowserSettings.Model.live(),
+        options: new M.Options.Model({
+          sync: await stored_object_factory.get(
+            "sync",
+            "test_options",
+            SYNC_DEF,
+          ),
+          local: await stored_object_factory.get(
+            "local",
+            "test_options",
+            LOCAL_DEF,
+          ),
+        }),
+        tabs: await M.Tabs.Model.from_browser(),
+        containers: await M.Containers.Model.from_browser(),
+        bookmarks: await M.Bookmarks.Model.from_browser(STASH_ROOT_NAME),
+        deleted_items: new M.DeletedItems.Model(new MemoryKVS("deleted_items")),
+        activity_log: new M.ActivityLog.Model(new MemoryKVS("activity_log")),
+        favicons: new M.Favicons.Model(new KVSCache(favicons)),
+        bookmark_metadata: new M.BookmarkMetadata.Model(
+          new KVSCache(new MemoryKVS("bookmark_metadata")),
+        ),
+      });
+      await model.favicons.sync();
+
+      events.ignore(undefined);
+    });
+
+    // The topmost folder in the fixture has a name, so links are always
+    // stashed in a new unnamed folder.
+    const stashed = () =>
+      model.bookmarks
+        .childrenOf(model.mostRecentUnnamedFolder()!)
+        .map(n => ({title: n.title, url: "url" in n ? n.url : undefined}));
+
+    it("stashes links in a new unnamed folder", async () => {
+      await stashLinks(model, [
+        {title: "Doug", url: `${B}#doug`},
+        {title: "Nate", url: `${B}#nate`},
+      ]);
+      expect(stashed()).to.deep.equal([
+        {title: "Doug", url: `${B}#doug`},
+        {title: "Nate", url: `${B}#nate`},
+      ]);
+    });
+
+    it("stashes links in one step", async () => {
+      await stashLinks(model, [
+        {title: "Doug", url: `${B}#doug`},
+        {title: "Nate", url: `${B}#nate`},
+      ]);
+      expect(model.journal.state.undoable.length).to.equal(1);
+    });
+
+    it("skips links which can't be stashed", async () => {
+      await stashLinks(model, [
+        {title: "New Tab", url: "about:newtab"},
+        {title: "Doug", url: `${B}#doug`},
+      ]);
+      expect(stashed()).to.deep.equal([{title: "Doug", url: `${B}#doug`}]);
+    });
+
+    it("does nothing if none of the links can be stashed", async () => {
+      const folders = model.bookmarks.stash_root.value!.children.length;
+      await stashLinks(model, [{title: "New Tab", url: "about:newtab"}]);
+      expect(model.bookmarks.stash_root.value!.children.length).to.equal(
+        folders,
+      );
+    });
+  });
 });
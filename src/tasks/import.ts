@@ -310,6 +310,43 @@ export async function importURLs(options: {
   await update_p;
 }
 
+/** Stash a bunch of links (e.g. from a web page the user is looking at)
+ * without opening them, just as if the user had stashed them (see
+ * `Model.stashItems()`), in a single undoable step.  Sites we don't already
+ * know the titles (or favicons) of are loaded in the background first, so the
+ * bookmarks can be created with their real titles; if a site doesn't load,
+ * its link is titled with its URL.  Links which aren't stashable (per
+ * `Model.isURLStashable()`) are skipped. */
+export async function stashLinks(model: Model, links: NewTab[]): Promise<void> {
+  links = links.filter(l => model.isURLStashable(l.url));
+  if (links.length === 0) return;
+
+  const urls = new Set(
+    filterMap(links, l =>
+      !l.title || !model.favicons.get(l.url)?.value?.favIconUrl
+        ? l.url
+        : undefined,
+    ),
+  );
+  const titles = new Map<string, string>();
+  if (urls.size > 0) {
+    for await (const info of TaskMonitor.run_iter(tm =>
+      fetchInfoForSites(urls, tm),
+    )) {
+      if (info.error) continue;
+      model.favicons.maybeSet(info.originalUrl, info);
+      if (info.title) titles.set(info.originalUrl, info.title);
+    }
+  }
+
+  await model.stashItems(
+    links.map(l => ({
+      title: l.title || titles.get(l.url) || l.url,
+      url: l.url,
+    })),
+  );
+}
+
 // Polyfill for Array.flat(), which isn't available in FF 61.
 function flat<T>(a: T[][]): T[] {
   return a.reduce((a, v) => a.concat(v), []);
@@ -20,6 +20,9 @@ export default async function (): Promise<M.Model> {
     deleted_items: new M.DeletedItems.Model(
       new KVSClient<string, M.DeletedItems.SourceValue>("deleted_items"),
     ),
+    activity_log: new M.ActivityLog.Model(
+      new KVSClient<string, M.ActivityLog.SourceValue>("activity_log"),
+    ),
   });
 
   const model = new M.Model({
@@ -121,6 +121,229 @@ describe("util", function () {
     ]),
   );
 
+  describe("normalizeURL()", function () {
+    const ALL: M.URLNormalization = {
+      strip_tracking_params: true,
+      ignore_fragment: true,
+      fold_www: true,
+      ignore_trailing_slash: true,
+    };
+    const only = (rule: keyof M.URLNormalization) => ({
+      ...M.EXACT_URL_MATCHING,
+      [rule]: true,
+    });
+
+    describe(
+      "with exact matching",
+      callSuite(
+        (url: string) => M.normalizeURL(url, M.EXACT_URL_MATCHING),
+        [
+          {
+            it: "passes URLs through unscathed",
+            i: ["https://www.foo.com/a/?utm_source=x#frag"],
+            o: "https://www.foo.com/a/?utm_source=x#frag",
+          },
+          {
+            it: "transforms URLs like urlToOpen()",
+            i: ["about:reader?url=http%3a%2f%2ffoo.com"],
+            o: "http://foo.com",
+          },
+        ],
+      ),
+    );
+
+    describe(
+      "stripping tracking parameters",
+      callSuite(
+        (url: string) => M.normalizeURL(url, only("strip_tracking_params")),
+        [
+          {
+            it: "removes utm_* parameters",
+            i: ["https://foo.com/?utm_source=a&utm_medium=b&utm_campaign=c"],
+            o: "https://foo.com/",
+          },
+          {
+            it: "removes fbclid",
+            i: ["https://foo.com/doc?fbclid=abc123"],
+            o: "https://foo.com/doc",
+          },
+          {
+            it: "removes tracking parameters regardless of case",
+            i: ["https://foo.com/doc?UTM_Source=a"],
+            o: "https://foo.com/doc",
+          },
+          {
+            it: "keeps other parameters in order",
+            i: ["https://foo.com/doc?b=1&utm_source=a&a=2"],
+            o: "https://foo.com/doc?b=1&a=2",
+          },
+          {
+            it: "leaves the query string alone if there are no tracking parameters",
+            i: ["https://foo.com/doc?q=a%20b"],
+            o: "https://foo.com/doc?q=a%20b",
+          },
+          {
+            it: "doesn't remove parameters which just look like tracking parameters",
+            i: ["https://foo.com/doc?utm=1&xfbclid=2"],
+            o: "https://foo.com/doc?utm=1&xfbclid=2",
+          },
+          {
+            it: "keeps the fragment",
+            i: ["https://foo.com/doc?fbclid=abc#frag"],
+            o: "https://foo.com/doc#frag",
+          },
+        ],
+      ),
+    );
+
+    describe(
+      "ignoring fragments",
+      callSuite(
+        (url: string) => M.normalizeURL(url, only("ignore_fragment")),
+        [
+          {
+            it: "removes the fragment",
+            i: ["https://foo.com/doc?q=1#section"],
+            o: "https://foo.com/doc?q=1",
+          },
+          {
+            it: "removes empty fragments",
+            i: ["https://foo.com/doc#"],
+            o: "https://foo.com/doc",
+          },
+          {
+            it: "removes fragments from about: URLs",
+            i: ["about:blank#foo"],
+            o: "about:blank",
+          },
+          {
+            it: "removes fragments from about:reader URLs",
+            i: ["about:reader?url=http%3a%2f%2ffoo.com%2Fdoc#pos"],
+            o: "http://foo.com/doc",
+          },
+        ],
+      ),
+    );
+
+    describe(
+      "folding www.",
+      callSuite(
+        (url: string) => M.normalizeURL(url, only("fold_www")),
+        [
+          {
+            it: "removes a leading www.",
+            i: ["https://www.foo.com/doc"],
+            o: "https://foo.com/doc",
+          },
+          {
+            it: "leaves hosts without www. alone",
+            i: ["https://docs.foo.com/doc"],
+            o: "https://docs.foo.com/doc",
+          },
+          {
+            it: "only removes www. from the start of the host",
+            i: ["https://wwwfoo.com/www.doc"],
+            o: "https://wwwfoo.com/www.doc",
+          },
+          {
+            it: "leaves hostless URLs alone",
+            i: ["about:blank"],
+            o: "about:blank",
+          },
+        ],
+      ),
+    );
+
+    describe(
+      "ignoring trailing slashes",
+      callSuite(
+        (url: string) => M.normalizeURL(url, only("ignore_trailing_slash")),
+        [
+          {
+            it: "removes a trailing slash from the path",
+            i: ["https://foo.com/doc/?q=1"],
+            o: "https://foo.com/doc?q=1",
+          },
+          {
+            it: "leaves the root path alone",
+            i: ["https://foo.com/"],
+            o: "https://foo.com/",
+          },
+          {
+            it: "leaves paths without a trailing slash alone",
+            i: ["https://foo.com/doc"],
+            o: "https://foo.com/doc",
+          },
+        ],
+      ),
+    );
+
+    describe(
+      "with all rules",
+      callSuite(
+        (url: string) => M.normalizeURL(url, ALL),
+        [
+          {
+            it: "applies every rule",
+            i: ["https://www.foo.com/doc/?id=4&utm_source=feed#comments"],
+            o: "https://foo.com/doc?id=4",
+          },
+          {
+            it: "normalizes the host and empty paths",
+            i: ["HTTPS://WWW.Foo.COM"],
+            o: "https://foo.com/",
+          },
+          {
+            it: "leaves redirected URLs openable",
+            i: ["file:///tmp/foo.html#frag"],
+            o: `${REDIR_URL}?url=file%3A%2F%2F%2Ftmp%2Ffoo.html%23frag`,
+          },
+        ],
+      ),
+    );
+
+    it("treats equivalent URLs as the same page", () => {
+      const urls = [
+        "https://www.foo.com/doc/",
+        "https://foo.com/doc",
+        "https://foo.com/doc?utm_source=x&fbclid=y",
+        "https://www.foo.com/doc/#top",
+      ];
+      expect(new Set(urls.map(u => M.normalizeURL(u, ALL)))).to.deep.equal(
+        new Set(["https://foo.com/doc"]),
+      );
+    });
+  });
+
+  describe("urlPatternMatcher()", function () {
+    const cases: [string, string, boolean][] = [
+      ["example.com", "https://example.com/foo", true],
+      ["example.com", "https://www.example.com/foo", false],
+      ["*.example.com", "https://www.example.com/foo", true],
+      ["*.example.com", "https://example.com/foo", false],
+      ["*.Atlassian.net", "https://acme.atlassian.net/browse/X-1", true],
+      ["github.com/*", "https://github.com/josh-berry/tab-stash", true],
+      ["github.com/*", "https://gist.github.com/foo", false],
+      ["github.com/*/pull/*", "https://github.com/a/b/pull/1", true],
+      ["github.com/*/pull/*", "https://github.com/a/b/issues/1", false],
+      ["example.com/?q=*", "http://example.com/?q=foo", true],
+      ["example.com/a.b", "http://example.com/axb", false],
+      ["/^http:/", "http://example.com/", true],
+      ["/^http:/", "https://example.com/", false],
+      ["/[/", "https://example.com/", false],
+      ["", "https://example.com/", false],
+      ["  ", "https://example.com/", false],
+      ["example.com", "not a URL", false],
+    ];
+    for (const [pattern, url, res] of cases) {
+      it(`${JSON.stringify(pattern)} ${
+        res ? "matches" : "doesn't match"
+      } ${url}`, () => {
+        expect(M.urlPatternMatcher(pattern)(url)).to.equal(res);
+      });
+    }
+  });
+
   describe("nonReentrant()", function () {
     let callCount = 0;
     let activeCalls = 0;
@@ -148,6 +148,78 @@ function redirUrl(url: string): OpenableURL {
   return `${REDIR_PAGE}?url=${encodeURIComponent(url)}` as OpenableURL;
 }
 
+/** Rules for deciding when two URLs refer to the "same" page, e.g. when
+ * checking whether an open tab has already been stashed.  See normalizeURL(). */
+export type URLNormalization = {
+  /** Ignore "utm_*" and "fbclid" tracking parameters in the query string. */
+  strip_tracking_params: boolean;
+  /** Ignore the "#fragment" at the end of the URL. */
+  ignore_fragment: boolean;
+  /** Treat "www.example.com" and "example.com" as the same host. */
+  fold_www: boolean;
+  /** Treat "/path/" and "/path" as the same path. */
+  ignore_trailing_slash: boolean;
+};
+
+/** Normalization rules which only match URLs that are exactly the same. */
+export const EXACT_URL_MATCHING: URLNormalization = {
+  strip_tracking_params: false,
+  ignore_fragment: false,
+  fold_www: false,
+  ignore_trailing_slash: false,
+};
+
+const TRACKING_PARAM_RE = /^(utm_.*|fbclid)$/i;
+
+// Given a URL, return the URL that is actually openable (see urlToOpen()), with
+// any parts the normalization rules say to ignore removed.  Two URLs which the
+// rules consider to be the same page will normalize to the same URL, so the
+// result is suitable for use as a key when looking up tabs/bookmarks by URL.
+export function normalizeURL(
+  urlstr: string,
+  rules: URLNormalization,
+): OpenableURL {
+  const open_url = urlToOpen(urlstr);
+  if (
+    !rules.strip_tracking_params &&
+    !rules.ignore_fragment &&
+    !rules.fold_www &&
+    !rules.ignore_trailing_slash
+  ) {
+    return open_url;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(open_url);
+  } catch (e) {
+    // istanbul ignore next -- urlToOpen() only returns parseable URLs
+    return open_url;
+  }
+
+  if (rules.strip_tracking_params) {
+    // Only touch the query string if there's something to remove, since
+    // modifying `searchParams` re-encodes the whole thing.
+    const params = Array.from(url.searchParams.keys()).filter(k =>
+      TRACKING_PARAM_RE.test(k),
+    );
+    for (const p of params) url.searchParams.delete(p);
+  }
+  if (rules.ignore_fragment) url.hash = "";
+  if (rules.fold_www && url.hostname.startsWith("www.")) {
+    url.hostname = url.hostname.slice(4);
+  }
+  if (
+    rules.ignore_trailing_slash &&
+    url.pathname.length > 1 &&
+    url.pathname.endsWith("/")
+  ) {
+    url.pathname = url.pathname.slice(0, -1);
+  }
+
+  return url.href as OpenableURL;
+}
+
 export function asyncEvent<
   U,
   T extends (this: U, ...args: any[]) => Promise<any>,
@@ -525,6 +597,50 @@ export function textMatcher(query: string): (txt: string) => boolean {
   }
 }
 
+/** Returns a function which checks whether a URL matches a user-provided URL
+ * pattern.  Patterns are either wildcard patterns like "*.example.com" or
+ * "example.com/docs/*", or regular expressions surrounded by slashes, like
+ * "/^https:\/\/example\.com\//".
+ *
+ * Wildcard patterns without a "/" are matched against just the hostname;
+ * otherwise they are matched against the hostname, path and query string.  The
+ * scheme is ignored, and matching is case-insensitive.  Regular expressions
+ * are matched against the whole URL.  Patterns which are empty or invalid
+ * never match anything. */
+export function urlPatternMatcher(pattern: string): (url: string) => boolean {
+  pattern = pattern.trim();
+  if (pattern === "") return _ => false;
+
+  if (pattern.length > 2 && pattern.startsWith("/") && pattern.endsWith("/")) {
+    try {
+      const re = new RegExp(pattern.slice(1, -1), "iu");
+      return url => re.test(url);
+    } catch (e) {
+      return _ => false;
+    }
+  }
+
+  const re = new RegExp(
+    `^${pattern
+      .split("*")
+      .map(p => p.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*")}$`,
+    "iu",
+  );
+  const host_only = !pattern.includes("/");
+
+  return urlstr => {
+    let url: URL;
+    try {
+      url = new URL(urlstr);
+    } catch (e) {
+      return false;
+    }
+    if (host_only) return re.test(url.hostname);
+    return re.test(url.host + url.pathname + url.search);
+  };
+}
+
 /** Add a delimiter in between each item in an array. For example:
  * `delimit(0, [1, 2, 3]) => [1, 0, 2, 0, 3]` */
 export function delimit<T>(delimiter: () => T, array: T[]): T[] {
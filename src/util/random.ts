@@ -24,3 +24,31 @@ if (/* istanbul ignore next */ (<any>globalThis)?.crypto?.getRandomValues) {
 }
 
 export {makeRandomString};
+
+let key_seq_no = 0;
+let last_key_date = Date.now();
+
+/** Generates a key for a record created at time `at` (e.g. a deleted item)
+ * which is extremely likely to result in records being sorted in the order
+ * they were created.  (I say "extremely likely" because for real-world
+ * scenarios, this is practically always the case, but it cannot be guaranteed
+ * without some global synchronization.)
+ *
+ * More precisely, returned keys are monotonically increasing with respect to:
+ *
+ * 1. The `at` time, and
+ * 2. The number of times this function has been called in the current
+ *    JavaScript context. (Up to a limit of 100,000 items.)
+ */
+export function makeTimestampKey(at: Date): string {
+  if (at.valueOf() !== last_key_date) {
+    key_seq_no = 0;
+    last_key_date = at.valueOf();
+  }
+
+  key_seq_no++;
+
+  return `${at.toISOString()}-${(1000000 - key_seq_no)
+    .toString()
+    .padStart(6, "0")}-${makeRandomString(4)}`;
+}
@@ -1,8 +1,12 @@
 import base from "./vite.config.base";
 
 base.build!.rollupOptions!.input = {
+  "activity-log": "src/activity-log.html",
+  archive: "src/archive.html",
   "deleted-items": "src/deleted-items.html",
+  duplicates: "src/duplicates.html",
   restore: "src/restore.html",
+  "stale-items": "src/stale-items.html",
   "stash-list": "src/stash-list.html",
   options: "src/options.html",
   "whats-new": "src/whats-new.html",